@@ -10,7 +10,9 @@
 import * as vscode from 'vscode';
 import { WorkspaceFolder, DebugConfiguration, ProviderResult, CancellationToken } from 'vscode';
 import { MockDebugSession } from './mockDebug';
-import { FileAccessor } from './mockRuntime';
+import { FileAccessor, assemblerErrorMessage } from './mockRuntime';
+import { assemble, toMachineCode } from './lc2kAssembler';
+import { activateLc2kLanguage, findLabelAt, findLabelOccurrences } from './lc2kLanguage';
 
 export function activateMockDebug(context: vscode.ExtensionContext, factory?: vscode.DebugAdapterDescriptorFactory) {
 
@@ -51,6 +53,30 @@ export function activateMockDebug(context: vscode.ExtensionContext, factory?: vs
 			if (ds) {
 				ds.customRequest('toggleFormatting');
 			}
+		}),
+		...['signed', 'unsigned', 'hex', 'binary', 'fields'].map(format => {
+			const command = `extension.mock-debug.format${format[0].toUpperCase()}${format.substr(1)}`;
+			return vscode.commands.registerCommand(command, (context) => {
+				const ds = vscode.debug.activeDebugSession;
+				if (ds && context?.variable) {
+					ds.customRequest('setVariableFormat', { name: context.variable.name, format });
+				}
+			});
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.toggleMemoryView', () => {
+			const ds = vscode.debug.activeDebugSession;
+			if (ds) {
+				ds.customRequest('toggleMemoryView');
+			}
+		}),
+		vscode.commands.registerCommand('extension.mock-debug.assembleToMachineCode', async (resource: vscode.Uri) => {
+			let targetResource = resource;
+			if (!targetResource && vscode.window.activeTextEditor) {
+				targetResource = vscode.window.activeTextEditor.document.uri;
+			}
+			if (targetResource) {
+				await assembleToMachineCode(targetResource);
+			}
 		})
 	);
 
@@ -99,6 +125,18 @@ export function activateMockDebug(context: vscode.ExtensionContext, factory?: vs
 		context.subscriptions.push(factory);
 	}
 
+	activateLc2kLanguage(context);
+
+	// check LC2K sources while they are edited
+	const diagnostics = vscode.languages.createDiagnosticCollection('lc2k');
+	context.subscriptions.push(
+		diagnostics,
+		vscode.workspace.onDidOpenTextDocument(document => updateDiagnostics(document, diagnostics)),
+		vscode.workspace.onDidChangeTextDocument(e => updateDiagnostics(e.document, diagnostics)),
+		vscode.workspace.onDidCloseTextDocument(document => diagnostics.delete(document.uri))
+	);
+	vscode.workspace.textDocuments.forEach(document => updateDiagnostics(document, diagnostics));
+
 	// override VS Code's default implementation of the debug hover
 	// here we match only Mock "variables", that are words starting with an '$'
 	context.subscriptions.push(vscode.languages.registerEvaluatableExpressionProvider('markdown', {
@@ -150,6 +188,73 @@ export function activateMockDebug(context: vscode.ExtensionContext, factory?: vs
 			return allValues;
 		}
 	}));
+
+	// hovering a label in an LC2K source shows the word at its address
+	context.subscriptions.push(vscode.languages.registerEvaluatableExpressionProvider('lc2k', {
+		provideEvaluatableExpression(document: vscode.TextDocument, position: vscode.Position): vscode.ProviderResult<vscode.EvaluatableExpression> {
+			const label = findLabelAt(document, position);
+			return label && new vscode.EvaluatableExpression(label.range, `mem[${label.name}]`);
+		}
+	}));
+
+	// show the current word of every label defined in the visible part of an LC2K source
+	context.subscriptions.push(vscode.languages.registerInlineValuesProvider('lc2k', {
+		provideInlineValues(document: vscode.TextDocument, viewport: vscode.Range): vscode.ProviderResult<vscode.InlineValue[]> {
+			return findLabelOccurrences(document)
+				.filter(o => o.isDefinition && viewport.contains(o.range))
+				.map(o => new vscode.InlineValueEvaluatableExpression(o.range, `mem[${o.name}]`));
+		}
+	}));
+}
+
+let assemblerOutput: vscode.OutputChannel | undefined;
+
+/**
+ * Assemble the given LC2K source file and write the machine code next to it (foo.as -> foo.mc).
+ * Errors are listed in the 'LC2K Assembler' output channel and no file is written.
+ */
+async function assembleToMachineCode(resource: vscode.Uri) {
+
+	// use the editor contents so that unsaved changes are assembled too
+	const document = await vscode.workspace.openTextDocument(resource);
+	const assembly = assemble(document.getText());
+
+	assemblerOutput ??= vscode.window.createOutputChannel('LC2K Assembler');
+	assemblerOutput.clear();
+
+	if (assembly.errors.length > 0) {
+		for (const e of assembly.errors) {
+			assemblerOutput.appendLine(`${resource.fsPath}:${e.line + 1}:${e.column + 1}: error: ${e.message}`);
+		}
+		assemblerOutput.show(true);
+		vscode.window.showErrorMessage(`Assembling failed with ${assembly.errors.length} error(s), see the 'LC2K Assembler' output.`);
+		return;
+	}
+
+	const target = resource.fsPath.replace(/\.as$/i, '') + '.mc';
+	await workspaceFileAccessor.writeFile(target, new TextEncoder().encode(toMachineCode(assembly.words)));
+	assemblerOutput.appendLine(`${resource.fsPath}: assembled ${assembly.words.length} words into ${target}`);
+	vscode.window.showInformationMessage(`Assembled ${assembly.words.length} words into ${target}`);
+}
+
+/**
+ * Show the assembler errors of an LC2K source as diagnostics, explained like the exceptions of a debug session.
+ */
+function updateDiagnostics(document: vscode.TextDocument, diagnostics: vscode.DiagnosticCollection) {
+
+	if (document.languageId !== 'lc2k') {
+		return;
+	}
+
+	const assembly = assemble(document.getText());
+	diagnostics.set(document.uri, assembly.errors.map(e => {
+		const message = assemblerErrorMessage(e.kind);
+		const range = new vscode.Range(e.line, e.column, e.line, e.column + e.length);
+		const diagnostic = new vscode.Diagnostic(range, message ? `${e.message}\n${message.explanation}` : e.message, vscode.DiagnosticSeverity.Error);
+		diagnostic.source = 'lc2k';
+		diagnostic.code = message?.description;
+		return diagnostic;
+	}));
 }
 
 class MockConfigurationProvider implements vscode.DebugConfigurationProvider {
@@ -163,7 +268,7 @@ class MockConfigurationProvider implements vscode.DebugConfigurationProvider {
 		// if launch.json is missing or empty
 		if (!config.type && !config.request && !config.name) {
 			const editor = vscode.window.activeTextEditor;
-			if (editor && editor.document.languageId === 'markdown') {
+			if (editor && editor.document.languageId === 'lc2k') {
 				config.type = 'mock';
 				config.name = 'Launch';
 				config.request = 'launch';
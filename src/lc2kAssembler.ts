@@ -0,0 +1,306 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+/*
+ * lc2kAssembler.ts implements a two-pass assembler for LC2K assembly (*.as).
+ * The first pass assigns an address to every statement and collects the labels,
+ * the second pass encodes every statement into a 32-bit LC2K machine-code word.
+ *
+ * The assembler is independent from the runtime and from VS Code so that it can be used
+ * by the debugger, by editor features and by the "Assemble to .mc" command alike.
+ */
+
+export const OPCODES = ['add', 'nor', 'lw', 'sw', 'beq', 'jalr', 'halt', 'noop'];
+
+// number of fields every opcode (and the .fill directive) expects
+const FIELD_COUNTS = new Map<string, number>([
+    ['add', 3], ['nor', 3], ['lw', 3], ['sw', 3], ['beq', 3],
+    ['jalr', 2],
+    ['halt', 0], ['noop', 0],
+    ['.fill', 1]
+]);
+
+// LC2K labels have at most 6 characters and start with a letter
+const MAX_LABEL_LENGTH = 6;
+
+const MIN_OFFSET = -32768;
+const MAX_OFFSET = 32767;
+
+export interface IAsmToken {
+    text: string;
+    column: number;
+}
+
+export interface IAsmStatement {
+    address: number;
+    line: number;
+    label?: IAsmToken;
+    opcode?: IAsmToken;
+    fields: IAsmToken[];
+}
+
+export interface IAsmLabel {
+    name: string;
+    address: number;
+    line: number;
+    column: number;
+}
+
+// 'label' is an undefined label, 'duplicate' and 'name' are about label definitions
+export type AsmErrorKind = 'opcode' | 'register' | 'label' | 'duplicate' | 'name' | 'offset' | 'field';
+
+export interface IAsmError {
+    kind: AsmErrorKind;
+    message: string;
+    line: number;
+    column: number;
+    length: number;
+}
+
+export interface IAsmInstruction {
+    opcode: string;
+    regA: number;
+    regB: number;
+    // destReg for 'add' and 'nor', the sign-extended 16-bit offset for 'lw', 'sw' and 'beq'
+    offset: number;
+}
+
+export interface IAssembly {
+    // statements indexed by their address
+    statements: IAsmStatement[];
+    labels: Map<string, IAsmLabel>;
+    // machine-code words indexed by their address
+    words: number[];
+    errors: IAsmError[];
+}
+
+/**
+ * Assemble the given LC2K source into machine-code words.
+ * Errors do not stop the assembler: every problem is reported with its (zero-based) line.
+ */
+export function assemble(source: string): IAssembly {
+
+    const assembly: IAssembly = {
+        statements: [],
+        labels: new Map<string, IAsmLabel>(),
+        words: [],
+        errors: []
+    };
+
+    // first pass: assign addresses and collect labels
+    const lines = source.split(/\r?\n/);
+    for (let l = 0; l < lines.length; l++) {
+        const statement = parseLine(lines[l], l, assembly.statements.length, assembly.errors);
+        if (!statement) {
+            continue;
+        }
+        assembly.statements.push(statement);
+
+        const label = statement.label;
+        if (label) {
+            // a badly named label is still defined, so that its uses do not report it as undefined as well
+            const problem = checkLabelName(label.text);
+            if (problem) {
+                addError(assembly.errors, 'name', problem, l, label);
+            }
+            const previous = assembly.labels.get(label.text);
+            if (previous) {
+                addError(assembly.errors, 'duplicate', `duplicate label '${label.text}' (first defined in line ${previous.line + 1})`, l, label);
+            } else {
+                assembly.labels.set(label.text, { name: label.text, address: statement.address, line: l, column: label.column });
+            }
+        }
+    }
+
+    // second pass: encode every statement
+    for (const statement of assembly.statements) {
+        assembly.words.push(encodeStatement(statement, assembly.labels, assembly.errors));
+    }
+
+    return assembly;
+}
+
+/**
+ * Format machine-code words the way the LC2K tools expect them: one decimal word per line.
+ */
+export function toMachineCode(words: number[]): string {
+    return words.map(w => `${w | 0}\n`).join('');
+}
+
+/**
+ * Decode a machine-code word into its instruction fields.
+ * Returns undefined for words that cannot be an instruction (any of the bits 31-25 set).
+ */
+export function decode(word: number): IAsmInstruction | undefined {
+    if ((word >>> 25) !== 0) {
+        return undefined;
+    }
+    const opcode = OPCODES[(word >> 22) & 0x7];
+    const regA = (word >> 19) & 0x7;
+    const regB = (word >> 16) & 0x7;
+    const offset = (opcode === 'add' || opcode === 'nor') ? word & 0x7 : (word << 16) >> 16;
+    return { opcode, regA, regB, offset };
+}
+
+/**
+ * Turn a machine-code word back into the (label free) assembly statement it encodes,
+ * e.g. 8454151 becomes 'lw 0 1 7'. Words that are no instruction are shown as '.fill' data.
+ */
+export function disassemble(word: number): string {
+    const instruction = decode(word);
+    if (!instruction) {
+        return `.fill ${word | 0}`;
+    }
+    const { opcode, regA, regB, offset } = instruction;
+    switch (opcode) {
+        case 'halt':
+        case 'noop':
+            return opcode;
+        case 'jalr':
+            return `${opcode} ${regA} ${regB}`;
+        default:
+            return `${opcode} ${regA} ${regB} ${offset}`;
+    }
+}
+
+/**
+ * Check a label name against the LC2K rules.
+ * Returns a description of the problem or undefined if the name is fine.
+ */
+export function checkLabelName(name: string): string | undefined {
+    if (/^\d/.test(name)) {
+        return `label '${name}' must start with a letter, not a digit`;
+    }
+    if (name.length > MAX_LABEL_LENGTH) {
+        return `label '${name}' is longer than ${MAX_LABEL_LENGTH} characters`;
+    }
+    return undefined;
+}
+
+// private functions
+
+function parseLine(text: string, line: number, address: number, errors: IAsmError[]): IAsmStatement | undefined {
+
+    // blank lines and full-line comments do not occupy an address
+    const trimmed = text.trim();
+    if (trimmed.length === 0 || trimmed[0] === '#' || trimmed[0] === ';') {
+        return undefined;
+    }
+
+    const tokens: IAsmToken[] = [];
+    const TOKEN_REGEXP = /\S+/g;
+    let match: RegExpExecArray | null;
+    while (match = TOKEN_REGEXP.exec(text)) {
+        tokens.push({ text: match[0], column: match.index });
+    }
+
+    const statement: IAsmStatement = { address, line, fields: [] };
+
+    // a label starts in the first column, everything else is indented
+    if (!/^\s/.test(text)) {
+        statement.label = tokens.shift();
+    }
+
+    statement.opcode = tokens.shift();
+    if (!statement.opcode) {
+        addError(errors, 'field', `missing opcode after label '${statement.label!.text}'`, line, statement.label!);
+        return statement;
+    }
+
+    const count = FIELD_COUNTS.get(statement.opcode.text);
+    if (count === undefined) {
+        addError(errors, 'opcode', `unknown opcode '${statement.opcode.text}'`, line, statement.opcode);
+        return statement;
+    }
+
+    // everything after the expected fields is a comment
+    statement.fields = tokens.slice(0, count);
+    if (statement.fields.length < count) {
+        addError(errors, 'field', `'${statement.opcode.text}' expects ${count} fields but found ${statement.fields.length}`, line, statement.opcode);
+    }
+
+    return statement;
+}
+
+function encodeStatement(statement: IAsmStatement, labels: Map<string, IAsmLabel>, errors: IAsmError[]): number {
+
+    const opcode = statement.opcode?.text;
+    const fields = statement.fields;
+    if (opcode === undefined || fields.length < (FIELD_COUNTS.get(opcode) ?? Infinity)) {
+        // already reported by the first pass
+        return 0;
+    }
+
+    if (opcode === '.fill') {
+        return parseValue(fields[0], statement, labels, errors, false) | 0;
+    }
+
+    const op = OPCODES.indexOf(opcode);
+    let word = op << 22;
+
+    switch (opcode) {
+        case 'add':
+        case 'nor':
+            word |= parseRegister(fields[0], statement.line, errors) << 19;
+            word |= parseRegister(fields[1], statement.line, errors) << 16;
+            word |= parseRegister(fields[2], statement.line, errors);
+            break;
+        case 'lw':
+        case 'sw':
+        case 'beq':
+            word |= parseRegister(fields[0], statement.line, errors) << 19;
+            word |= parseRegister(fields[1], statement.line, errors) << 16;
+            word |= parseValue(fields[2], statement, labels, errors, true) & 0xFFFF;
+            break;
+        case 'jalr':
+            word |= parseRegister(fields[0], statement.line, errors) << 19;
+            word |= parseRegister(fields[1], statement.line, errors) << 16;
+            break;
+        default:
+            // halt and noop have no fields
+            break;
+    }
+    return word;
+}
+
+function parseRegister(token: IAsmToken, line: number, errors: IAsmError[]): number {
+    if (!/^\d+$/.test(token.text)) {
+        addError(errors, 'register', `register '${token.text}' is not a number`, line, token);
+        return 0;
+    }
+    const reg = parseInt(token.text, 10);
+    if (reg > 7) {
+        addError(errors, 'register', `register ${reg} is out of range, only registers 0-7 exist`, line, token);
+        return 0;
+    }
+    return reg;
+}
+
+/*
+ * Parse a numeric value or a label.
+ * An offset field must fit into 16 bits; a 'beq' label is turned into a PC-relative offset.
+ */
+function parseValue(token: IAsmToken, statement: IAsmStatement, labels: Map<string, IAsmLabel>, errors: IAsmError[], isOffset: boolean): number {
+
+    let value: number;
+    if (/^-?\d+$/.test(token.text)) {
+        value = parseInt(token.text, 10);
+    } else {
+        const label = labels.get(token.text);
+        if (!label) {
+            addError(errors, 'label', `undefined label '${token.text}'`, statement.line, token);
+            return 0;
+        }
+        value = statement.opcode?.text === 'beq' ? label.address - (statement.address + 1) : label.address;
+    }
+
+    if (isOffset && (value < MIN_OFFSET || value > MAX_OFFSET)) {
+        addError(errors, 'offset', `offset ${value} does not fit into 16 bits (${MIN_OFFSET} to ${MAX_OFFSET})`, statement.line, token);
+        return 0;
+    }
+    return value;
+}
+
+function addError(errors: IAsmError[], kind: AsmErrorKind, message: string, line: number, token: IAsmToken) {
+    errors.push({ kind, message, line, column: token.column, length: token.text.length });
+}
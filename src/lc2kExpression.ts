@@ -0,0 +1,222 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+/*
+ * lc2kExpression.ts evaluates expressions over the state of an LC2K program,
+ * e.g. the breakpoint condition 'r3 == 5', the watch expression 'mem[arr + r5]' or '(r1 & 0xFF) << 2'.
+ *
+ * Grammar:
+ *   expression := unary (binary-operator unary)*
+ *   unary      := ('-' | '!' | '~') unary | primary
+ *   primary    := number | register | 'mem' '[' expression ']' | label | '(' expression ')'
+ *   number     := decimal | '0x' hex | '0b' binary
+ *   register   := 'r0' ... 'r7' | 'reg' '0' ... '7'
+ *
+ * The binary operators follow the precedence of C, see BINARY_OPERATORS.
+ * All values are 32-bit two's-complement integers, like the LC2K registers.
+ */
+
+/**
+ * The program state an expression can refer to.
+ */
+export interface IExpressionContext {
+    getRegister(reg: number): number;
+    // throws an Error for addresses outside of the memory
+    getMemory(address: number): number;
+    getLabelAddress(name: string): number | undefined;
+}
+
+// the binary operators from lowest to highest precedence
+const BINARY_OPERATORS: string[][] = [
+    ['||'],
+    ['&&'],
+    ['|'],
+    ['^'],
+    ['&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['<<', '>>'],
+    ['+', '-'],
+    ['*', '/', '%']
+];
+
+/**
+ * Evaluate the expression against the given context.
+ * Comparisons and logical operators result in 1 (true) or 0 (false).
+ * A label evaluates to its address; a label named like a register (e.g. 'r1') wins over the register,
+ * which is then still available as 'reg 1'.
+ * Throws an Error describing the problem if the expression is invalid.
+ */
+export function evaluateExpression(expression: string, context: IExpressionContext): number {
+    const parser = new ExpressionParser(expression, context);
+    return parser.parse();
+}
+
+/**
+ * Parse a number literal: decimal (optionally negative), '0x' hex or '0b' binary.
+ * Values must fit into 32 bits and are returned as two's complement, so '0xFFFFFFFF' is -1.
+ * Returns undefined if the text is no number literal.
+ */
+export function parseNumber(text: string): number | undefined {
+    const match = /^(-)?(?:0[xX]([0-9a-fA-F]+)|0[bB]([01]+)|(\d+))$/.exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+    const magnitude = match[2] !== undefined ? parseInt(match[2], 16) : match[3] !== undefined ? parseInt(match[3], 2) : parseInt(match[4], 10);
+    const value = match[1] ? -magnitude : magnitude;
+    if (value < -0x80000000 || value > 0xFFFFFFFF) {
+        throw new Error(`${text.trim()} does not fit into 32 bits`);
+    }
+    return value | 0;
+}
+
+class ExpressionParser {
+
+    private tokens: string[] = [];
+    private position = 0;
+
+    constructor(private readonly expression: string, private readonly context: IExpressionContext) { }
+
+    public parse(): number {
+        this.tokenize();
+        if (this.tokens.length === 0) {
+            throw new Error('empty expression');
+        }
+        const value = this.parseBinary(0);
+        if (this.position < this.tokens.length) {
+            throw new Error(`unexpected '${this.tokens[this.position]}'`);
+        }
+        return value;
+    }
+
+    private tokenize() {
+        const TOKEN_REGEXP = /\s*(?:(0[xX][0-9a-fA-F]+|0[bB][01]+|\d+)|([A-Za-z_][A-Za-z0-9_]*)|(==|!=|<=|>=|<<|>>|&&|\|\||[-+*/%&|^~<>!()[\]]))/y;
+        while (TOKEN_REGEXP.lastIndex < this.expression.length) {
+            const start = TOKEN_REGEXP.lastIndex;
+            const match = TOKEN_REGEXP.exec(this.expression);
+            if (!match) {
+                if (this.expression.substr(start).trim().length === 0) {
+                    break;
+                }
+                throw new Error(`unexpected character '${this.expression.substr(start).trim()[0]}'`);
+            }
+            this.tokens.push(match[1] ?? match[2] ?? match[3]);
+        }
+    }
+
+    private peek(): string | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): string {
+        const token = this.tokens[this.position++];
+        if (token === undefined) {
+            throw new Error('unexpected end of expression');
+        }
+        return token;
+    }
+
+    private expect(token: string) {
+        const t = this.next();
+        if (t !== token) {
+            throw new Error(`expected '${token}' but found '${t}'`);
+        }
+    }
+
+    /*
+     * Parse the operators of the given precedence level and all higher levels (left associative).
+     */
+    private parseBinary(level: number): number {
+        if (level === BINARY_OPERATORS.length) {
+            return this.parseUnary();
+        }
+        let value = this.parseBinary(level + 1);
+        while (BINARY_OPERATORS[level].indexOf(this.peek() ?? '') >= 0) {
+            const op = this.next();
+            const right = this.parseBinary(level + 1);
+            value = applyBinary(op, value, right);
+        }
+        return value;
+    }
+
+    private parseUnary(): number {
+        switch (this.peek()) {
+            case '-': this.next(); return -this.parseUnary() | 0;
+            case '!': this.next(); return this.parseUnary() === 0 ? 1 : 0;
+            case '~': this.next(); return ~this.parseUnary();
+            default: return this.parsePrimary();
+        }
+    }
+
+    private parsePrimary(): number {
+        const token = this.next();
+
+        const n = parseNumber(token);
+        if (n !== undefined) {
+            return n;
+        }
+        if (token === '(') {
+            const value = this.parseBinary(0);
+            this.expect(')');
+            return value;
+        }
+        if (token === 'reg') {
+            const reg = this.next();
+            if (!/^[0-7]$/.test(reg)) {
+                throw new Error(`'${reg}' is not a register, only registers 0-7 exist`);
+            }
+            return this.context.getRegister(parseInt(reg, 10));
+        }
+        if (token === 'mem') {
+            this.expect('[');
+            const address = this.parseBinary(0);
+            this.expect(']');
+            return this.context.getMemory(address);
+        }
+        if (/^[A-Za-z_]/.test(token)) {
+            // a label evaluates to its address
+            const address = this.context.getLabelAddress(token);
+            if (address !== undefined) {
+                return address;
+            }
+            const reg = /^r(\d+)$/.exec(token);
+            if (reg) {
+                if (parseInt(reg[1], 10) > 7) {
+                    throw new Error(`'${token}' is not a register, only registers r0-r7 exist`);
+                }
+                return this.context.getRegister(parseInt(reg[1], 10));
+            }
+            throw new Error(`label '${token}' is not defined`);
+        }
+        throw new Error(`unexpected '${token}'`);
+    }
+}
+
+function applyBinary(op: string, left: number, right: number): number {
+    switch (op) {
+        case '||': return (left !== 0 || right !== 0) ? 1 : 0;
+        case '&&': return (left !== 0 && right !== 0) ? 1 : 0;
+        case '|': return left | right;
+        case '^': return left ^ right;
+        case '&': return left & right;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '<<': return left << right;
+        case '>>': return left >> right;
+        case '+': return (left + right) | 0;
+        case '-': return (left - right) | 0;
+        case '*': return Math.imul(left, right);
+        case '/':
+        case '%':
+            if (right === 0) {
+                throw new Error('division by zero');
+            }
+            return (op === '/' ? left / right : left % right) | 0;
+        default:
+            throw new Error(`unknown operator '${op}'`);
+    }
+}
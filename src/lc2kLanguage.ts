@@ -0,0 +1,192 @@
+/*---------------------------------------------------------
+ * Copyright (C) Microsoft Corporation. All rights reserved.
+ *--------------------------------------------------------*/
+/*
+ * lc2kLanguage.ts implements the editor features of the 'lc2k' language (*.as files) on top of the assembler.
+ * Like activateMockDebug.ts it runs both in node.js and in the browser.
+ */
+
+'use strict';
+
+import * as vscode from 'vscode';
+import { assemble, checkLabelName, IAsmStatement, IAsmToken } from './lc2kAssembler';
+
+// the number of register fields of every opcode, the field after them is an offset or a value
+const REGISTER_FIELDS = new Map<string, number>([
+	['add', 3], ['nor', 3],
+	['lw', 2], ['sw', 2], ['beq', 2], ['jalr', 2],
+	['halt', 0], ['noop', 0],
+	['.fill', 0]
+]);
+
+const LEGEND = new vscode.SemanticTokensLegend(['keyword', 'variable', 'label', 'number', 'comment'], ['declaration']);
+
+/**
+ * A label in an LC2K source: either where it is defined or where it is used.
+ */
+export interface ILabelOccurrence {
+	name: string;
+	range: vscode.Range;
+	isDefinition: boolean;
+}
+
+export function activateLc2kLanguage(context: vscode.ExtensionContext) {
+	const labelProvider = new Lc2kLabelProvider();
+	context.subscriptions.push(
+		vscode.languages.registerDocumentSemanticTokensProvider('lc2k', new Lc2kSemanticTokensProvider(), LEGEND),
+		vscode.languages.registerDefinitionProvider('lc2k', labelProvider),
+		vscode.languages.registerReferenceProvider('lc2k', labelProvider),
+		vscode.languages.registerDocumentHighlightProvider('lc2k', labelProvider),
+		vscode.languages.registerRenameProvider('lc2k', labelProvider)
+	);
+}
+
+/**
+ * Returns all definitions and uses of labels in the document, in document order.
+ */
+export function findLabelOccurrences(document: vscode.TextDocument): ILabelOccurrence[] {
+	const occurrences: ILabelOccurrence[] = [];
+	for (const statement of assemble(document.getText()).statements) {
+		if (statement.label) {
+			occurrences.push({ name: statement.label.text, range: tokenRange(statement.line, statement.label), isDefinition: true });
+		}
+		const registers = REGISTER_FIELDS.get(statement.opcode?.text ?? '') ?? 0;
+		for (const field of statement.fields.slice(registers)) {
+			if (!/^-?\d+$/.test(field.text)) {
+				occurrences.push({ name: field.text, range: tokenRange(statement.line, field), isDefinition: false });
+			}
+		}
+	}
+	return occurrences;
+}
+
+/**
+ * Returns the label defined or used at the given position.
+ */
+export function findLabelAt(document: vscode.TextDocument, position: vscode.Position): ILabelOccurrence | undefined {
+	return findLabelOccurrences(document).find(o => o.range.contains(position));
+}
+
+class Lc2kSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+
+	provideDocumentSemanticTokens(document: vscode.TextDocument): vscode.SemanticTokens {
+
+		const builder = new vscode.SemanticTokensBuilder(LEGEND);
+		const statements = new Map<number, IAsmStatement>(assemble(document.getText()).statements.map(s => [s.line, s]));
+
+		for (let l = 0; l < document.lineCount; l++) {
+			const text = document.lineAt(l).text;
+			const statement = statements.get(l);
+			if (statement) {
+				this.pushStatement(builder, statement, text);
+			} else if (text.trim().length > 0) {
+				// a full-line comment
+				builder.push(new vscode.Range(l, text.search(/\S/), l, text.length), 'comment');
+			}
+		}
+		return builder.build();
+	}
+
+	private pushStatement(builder: vscode.SemanticTokensBuilder, statement: IAsmStatement, text: string) {
+
+		const line = statement.line;
+		if (statement.label) {
+			builder.push(tokenRange(line, statement.label), 'label', ['declaration']);
+		}
+		if (!statement.opcode) {
+			return;
+		}
+		builder.push(tokenRange(line, statement.opcode), 'keyword');
+
+		const registers = REGISTER_FIELDS.get(statement.opcode.text);
+		if (registers === undefined) {
+			// an unknown opcode, its fields are unknown too
+			return;
+		}
+		statement.fields.forEach((field, i) => {
+			const type = i < registers ? 'variable' : /^-?\d+$/.test(field.text) ? 'number' : 'label';
+			builder.push(tokenRange(line, field), type);
+		});
+
+		// everything after the fields is a comment
+		const last = statement.fields[statement.fields.length - 1] ?? statement.opcode;
+		const end = last.column + last.text.length;
+		const start = text.substr(end).search(/\S/);
+		if (start >= 0) {
+			builder.push(new vscode.Range(line, end + start, line, text.length), 'comment');
+		}
+	}
+}
+
+/*
+ * Navigates and renames labels, using the label table of the assembler like the runtime does.
+ */
+class Lc2kLabelProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.DocumentHighlightProvider, vscode.RenameProvider {
+
+	provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Definition | undefined {
+		const label = findLabelAt(document, position);
+		const definition = label && assemble(document.getText()).labels.get(label.name);
+		if (definition) {
+			return new vscode.Location(document.uri, new vscode.Range(definition.line, definition.column, definition.line, definition.column + definition.name.length));
+		}
+		return undefined;
+	}
+
+	provideReferences(document: vscode.TextDocument, position: vscode.Position, context: vscode.ReferenceContext): vscode.Location[] {
+		return this.findOccurrences(document, position)
+			.filter(o => context.includeDeclaration || !o.isDefinition)
+			.map(o => new vscode.Location(document.uri, o.range));
+	}
+
+	provideDocumentHighlights(document: vscode.TextDocument, position: vscode.Position): vscode.DocumentHighlight[] {
+		return this.findOccurrences(document, position)
+			.map(o => new vscode.DocumentHighlight(o.range, o.isDefinition ? vscode.DocumentHighlightKind.Write : vscode.DocumentHighlightKind.Read));
+	}
+
+	prepareRename(document: vscode.TextDocument, position: vscode.Position): vscode.Range {
+		const label = findLabelAt(document, position);
+		if (!label) {
+			throw new Error('Only labels can be renamed.');
+		}
+		return label.range;
+	}
+
+	provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): vscode.WorkspaceEdit {
+
+		const label = findLabelAt(document, position);
+		if (!label) {
+			throw new Error('Only labels can be renamed.');
+		}
+		if (newName === label.name) {
+			return new vscode.WorkspaceEdit();
+		}
+		if (!/^[A-Za-z0-9_]+$/.test(newName)) {
+			throw new Error(`label '${newName}' may only contain letters, digits and '_'`);
+		}
+		const problem = checkLabelName(newName);
+		if (problem) {
+			throw new Error(problem);
+		}
+		const existing = assemble(document.getText()).labels.get(newName);
+		if (existing) {
+			throw new Error(`label '${newName}' is already defined in line ${existing.line + 1}`);
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		for (const occurrence of this.findOccurrences(document, position)) {
+			edit.replace(document.uri, occurrence.range, newName);
+		}
+		return edit;
+	}
+
+	// all definitions and uses of the label at the given position
+	private findOccurrences(document: vscode.TextDocument, position: vscode.Position): ILabelOccurrence[] {
+		const occurrences = findLabelOccurrences(document);
+		const label = occurrences.find(o => o.range.contains(position));
+		return label ? occurrences.filter(o => o.name === label.name) : [];
+	}
+}
+
+function tokenRange(line: number, token: IAsmToken): vscode.Range {
+	return new vscode.Range(line, token.column, line, token.column + token.text.length);
+}
@@ -19,8 +19,11 @@ import {
 } from '@vscode/debugadapter';
 import { DebugProtocol } from '@vscode/debugprotocol';
 import { basename } from 'path-browserify';
-import { MockRuntime, IRuntimeBreakpoint, FileAccessor, RuntimeVariable, IRuntimeVariableType, RuntimeException } from './mockRuntime';
+import { MockRuntime, IRuntimeBreakpoint, FileAccessor, RuntimeVariable, RuntimeException, EXCEPTION_MESSAGES, assemblerErrorMessage } from './mockRuntime';
+import { parseNumber } from './lc2kExpression';
+import { AsmErrorKind, IAsmLabel } from './lc2kAssembler';
 import { Subject } from 'await-notify';
+import * as base64 from 'base64-js';
 
 /**
  * This interface describes the mock-debug specific launch attributes
@@ -37,12 +40,37 @@ interface ILaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
     trace?: boolean;
     /** run without debugging */
     noDebug?: boolean;
+    /** stop with an exception after this many instructions, since the program is probably stuck in an infinite loop; 0 or less means no limit */
+    maxInstructions?: number;
+    /** show the registers and memory words changed by the last step or continue in a 'Changes' scope */
+    showChanges?: boolean;
     /** if specified, results in a simulated compile error in launch. */
     compileError?: 'default' | 'show' | 'hide';
 }
 
 interface IAttachRequestArguments extends ILaunchRequestArguments { }
 
+// the number of words 'x' shows at most
+const MAX_EXAMINE = 1024;
+
+// the gdb-style commands of the debug console
+const COMMANDS_HELP = [
+    'x/N <address>          show N memory words, e.g. x/16 arr',
+    'info regs              show all registers',
+    'info labels            show all labels with their address and word',
+    'set <target> = <value> change a register or a memory word, e.g. set r3 = 0x10 or set mem[arr] = 5',
+    'break <address>        add a breakpoint, e.g. break cont2',
+    'printstate             print the state like the EECS 370 simulator does',
+    'help                   show this help',
+    'Anything else is evaluated as an expression, e.g. mem[arr + r5] or (r1 & 0xFF) << 2.'
+].join('\n');
+
+// how a number is shown in the variables views, see formatNumber
+type NumberFormat = 'signed' | 'unsigned' | 'hex' | 'binary' | 'fields';
+
+// the command keywords offered by debug console completions
+const COMMAND_COMPLETIONS = ['x/16 ', 'info regs', 'info labels', 'set ', 'break ', 'printstate', 'help'];
+
 
 export class MockDebugSession extends LoggingDebugSession {
 
@@ -52,18 +80,23 @@ export class MockDebugSession extends LoggingDebugSession {
     // a Mock runtime (or debugger)
     private _runtime: MockRuntime;
 
-    private _variableHandles = new Handles<'regs' | 'mems' | RuntimeVariable>();
+    private _variableHandles = new Handles<'regs' | 'mems' | 'labels' | 'changes' | RuntimeVariable>();
 
     private _configurationDone = new Subject();
 
     private _cancellationTokens = new Map<number, boolean>();
     private _exceptionMsg: string | undefined;
     private _exceptionType: RuntimeException = RuntimeException.None;
+    // the assembler error of the instruction that raised the exception, if any
+    private _exceptionKind: AsmErrorKind | undefined;
     private _valuesInHex = false;
+    // formats chosen from the context menu of a register or memory word, e.g. 'reg 1' or 'mem[9]'
+    private _variableFormats = new Map<string, NumberFormat>();
+    // list only the program and the memory words it accessed instead of every address
+    private _touchedMemoryOnly = true;
+    private _showChanges = true;
     private _useInvalidatedEvent = false;
 
-    private _addressesInHex = true;
-
     /**
      * Creates a new debug adapter that is used for one debug session.
      * We configure the default implementation of a debug adapter here.
@@ -87,13 +120,26 @@ export class MockDebugSession extends LoggingDebugSession {
         this._runtime.on('stopOnBreakpoint', () => {
             this.sendEvent(new StoppedEvent('breakpoint', MockDebugSession.threadID));
         });
-        this._runtime.on('stopOnDataBreakpoint', () => {
-            this.sendEvent(new StoppedEvent('data breakpoint', MockDebugSession.threadID));
+        this._runtime.on('stopOnDataBreakpoint', (hit?: string) => {
+            const e: DebugProtocol.StoppedEvent = new StoppedEvent('data breakpoint', MockDebugSession.threadID);
+            if (hit) {
+                // e.g. 'mem[12] changed from 3 to 4'
+                e.body.description = `Paused on data breakpoint: ${hit}`;
+                e.body.text = hit;
+            }
+            this.sendEvent(e);
         });
         this._runtime.on('stopOnInstructionBreakpoint', () => {
             this.sendEvent(new StoppedEvent('instruction breakpoint', MockDebugSession.threadID));
         });
-        this._runtime.on('stopOnException', (exception) => {
+        this._runtime.on('stopOnFunctionBreakpoint', () => {
+            this.sendEvent(new StoppedEvent('function breakpoint', MockDebugSession.threadID));
+        });
+        this._runtime.on('stopOnPause', () => {
+            this.sendEvent(new StoppedEvent('pause', MockDebugSession.threadID));
+        });
+        this._runtime.on('stopOnException', (exception, kind?: AsmErrorKind) => {
+            this._exceptionKind = kind;
             if (exception) {
                 const error_num_REGEX = /^[0-9]\s/g;
                 var match = error_num_REGEX.exec(exception)
@@ -109,7 +155,9 @@ export class MockDebugSession extends LoggingDebugSession {
             this.sendEvent(new StoppedEvent('exception', MockDebugSession.threadID));
         });
         this._runtime.on('breakpointValidated', (bp: IRuntimeBreakpoint) => {
-            this.sendEvent(new BreakpointEvent('changed', { verified: bp.verified, id: bp.id } as DebugProtocol.Breakpoint));
+            // a verified breakpoint may have moved to the line of the next instruction
+            const line = bp.verified ? this.convertDebuggerLineToClient(bp.line) : undefined;
+            this.sendEvent(new BreakpointEvent('changed', { verified: bp.verified, id: bp.id, line, message: bp.message } as DebugProtocol.Breakpoint));
         });
         this._runtime.on('output', (type, text, filePath, line, column) => {
 
@@ -127,9 +175,12 @@ export class MockDebugSession extends LoggingDebugSession {
                 e.body.output = `group-${text}\n`;
             }
 
-            e.body.source = this.createSource(filePath);
-            e.body.line = this.convertDebuggerLineToClient(line);
-            e.body.column = this.convertDebuggerColumnToClient(column);
+            // output about an address outside of the program has no source location
+            if (line !== undefined) {
+                e.body.source = this.createSource(filePath);
+                e.body.line = this.convertDebuggerLineToClient(line);
+                e.body.column = this.convertDebuggerColumnToClient(column);
+            }
             this.sendEvent(e);
         });
         this._runtime.on('end', () => {
@@ -160,10 +211,15 @@ export class MockDebugSession extends LoggingDebugSession {
         response.body.supportsEvaluateForHovers = true;
 
         // make VS Code show a 'step back' button
-        response.body.supportsStepBack = false;
+        response.body.supportsStepBack = true;
         // make VS Code support data breakpoints
         response.body.supportsDataBreakpoints = true;
 
+        // make VS Code support conditions, hit counts and log messages on breakpoints
+        response.body.supportsConditionalBreakpoints = true;
+        response.body.supportsHitConditionalBreakpoints = true;
+        response.body.supportsLogPoints = true;
+
 
         // make VS Code send cancel request
         response.body.supportsCancelRequest = true;
@@ -176,17 +232,34 @@ export class MockDebugSession extends LoggingDebugSession {
 
 
 
+        // make VS Code use 'completions' in the debug console
+        response.body.supportsCompletionsRequest = true;
+        response.body.completionTriggerCharacters = ['['];
+
         // make VS Code send exceptionInfo request
         response.body.supportsExceptionInfoRequest = true;
 
+        // make VS Code offer to break when a program overwrites its own instructions
+        response.body.exceptionBreakpointFilters = [
+            {
+                filter: 'codeWrite',
+                label: "Writes to Program Code",
+                description: "Break when a 'sw' overwrites one of the program's instructions.",
+                default: false
+            }
+        ];
+
         // make VS Code send setVariable request
         response.body.supportsSetVariable = true;
 
+        // make VS Code pass a 'format' to variables, evaluate and setVariable requests
+        response.body.supportsValueFormattingOptions = true;
+
         // make VS Code send setExpression request
         response.body.supportsSetExpression = true;
 
         // make VS Code send disassemble request
-        response.body.supportsDisassembleRequest = false;
+        response.body.supportsDisassembleRequest = true;
         response.body.supportsSteppingGranularity = true;
         response.body.supportsInstructionBreakpoints = true;
 
@@ -218,7 +291,9 @@ export class MockDebugSession extends LoggingDebugSession {
     }
 
     protected disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments, request?: DebugProtocol.Request): void {
-        console.log(`disconnectRequest suspend: ${args.suspendDebuggee}, terminate: ${args.terminateDebuggee}`);
+        // a program that never halts must not keep running once the session is gone
+        this._runtime.stop();
+        this.sendResponse(response);
     }
 
     protected async attachRequest(response: DebugProtocol.AttachResponse, args: IAttachRequestArguments) {
@@ -233,8 +308,21 @@ export class MockDebugSession extends LoggingDebugSession {
         // wait 1 second until configuration has finished (and configurationDoneRequest has been called)
         await this._configurationDone.wait(1000);
 
+        this._showChanges = args.showChanges ?? true;
+
         // start the program in the runtime
-        await this._runtime.start(args.program, !!args.stopOnEntry, !args.noDebug);
+        try {
+            await this._runtime.start(args.program, !!args.stopOnEntry, !args.noDebug, args.maxInstructions);
+        } catch (e) {
+            // e.g. the program does not exist or is no valid machine code
+            this.sendErrorResponse(response, {
+                id: 1007,
+                format: `cannot load '{program}': {message}`,
+                variables: { program: args.program, message: e instanceof Error ? e.message : String(e) },
+                showUser: true
+            });
+            return;
+        }
 
         if (args.compileError) {
             // simulate a compile/build error in "launch" request:
@@ -251,20 +339,40 @@ export class MockDebugSession extends LoggingDebugSession {
     }
 
     protected setFunctionBreakPointsRequest(response: DebugProtocol.SetFunctionBreakpointsResponse, args: DebugProtocol.SetFunctionBreakpointsArguments, request?: DebugProtocol.Request): void {
+
+        // clear all function breakpoints
+        this._runtime.clearFunctionBreakpoints();
+
+        // function breakpoints are labels, e.g. 'mult1'
+        const breakpoints = args.breakpoints.map(fbp => {
+            const { verified, line, id, message } = this._runtime.setFunctionBreakpoint(fbp.name.trim());
+            const bp = new Breakpoint(verified) as DebugProtocol.Breakpoint;
+            bp.id = id;
+            bp.message = message;
+            if (verified) {
+                bp.source = this.createSource(this._runtime.sourceFile);
+                bp.line = this.convertDebuggerLineToClient(line);
+            }
+            return bp;
+        });
+
+        response.body = {
+            breakpoints: breakpoints
+        };
         this.sendResponse(response);
     }
 
     protected async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): Promise<void> {
 
         const path = args.source.path as string;
-        const clientLines = args.lines || [];
+        const clientBreakpoints = args.breakpoints || (args.lines || []).map(line => <DebugProtocol.SourceBreakpoint>{ line });
 
         // clear all breakpoints for this file
         this._runtime.clearBreakpoints(path);
 
         // set and verify breakpoint locations
-        const actualBreakpoints0 = clientLines.map(async l => {
-            const { verified, line, id } = await this._runtime.setBreakPoint(path, this.convertClientLineToDebugger(l));
+        const actualBreakpoints0 = clientBreakpoints.map(async sbp => {
+            const { verified, line, id } = await this._runtime.setBreakPoint(path, this.convertClientLineToDebugger(sbp.line), sbp.condition, sbp.hitCondition, sbp.logMessage);
             const bp = new Breakpoint(verified, this.convertDebuggerLineToClient(line)) as DebugProtocol.Breakpoint;
             bp.id = id;
             return bp;
@@ -297,29 +405,15 @@ export class MockDebugSession extends LoggingDebugSession {
         }
         this.sendResponse(response);
     }
+    protected setExceptionBreakPointsRequest(response: DebugProtocol.SetExceptionBreakpointsResponse, args: DebugProtocol.SetExceptionBreakpointsArguments): void {
+        this._runtime.setExceptionsFilters(args.filters.indexOf('codeWrite') >= 0);
+        this.sendResponse(response);
+    }
+
     protected exceptionInfoRequest(response: DebugProtocol.ExceptionInfoResponse, args: DebugProtocol.ExceptionInfoArguments) {
-        var description_msg: string = "Exception description";
-        var detailed_explain: string | undefined = undefined;
-        switch (this._exceptionType as RuntimeException) {
-            case RuntimeException.InvalidInstruction:
-                description_msg = "Invalid instruction";
-                detailed_explain = "There are only 8 valid instruction, are you using one of them?";
-                break;
-            case RuntimeException.InvalidMemory:
-                description_msg = "Invalid memory access";
-                detailed_explain = "You are trying to access memory that is not accessable by LC2K";
-                break;
-            case RuntimeException.InvalidRegister:
-                description_msg = "Invalid register access"
-                detailed_explain = "Please notice that there are only 8 registers so you can only access R0-R7";
-                break;
-            case RuntimeException.InvalidLabel:
-                description_msg = "Invalid label"
-                detailed_explain = "Have you defined it before?";
-                break;
-            default:
-                break;
-        }
+        const message = this._exceptionKind ? assemblerErrorMessage(this._exceptionKind) : EXCEPTION_MESSAGES[this._exceptionType];
+        var description_msg: string = message?.description ?? "Exception description";
+        var detailed_explain: string | undefined = message?.explanation;
 
         response.body = {
             exceptionId: String(args.threadId),
@@ -356,12 +450,15 @@ export class MockDebugSession extends LoggingDebugSession {
 
         response.body = {
             stackFrames: stk.frames.map((f, ix) => {
-                const sf: DebugProtocol.StackFrame = new StackFrame(f.index, f.name, this.createSource(f.file), this.convertDebuggerLineToClient(f.line));
+                // a frame outside of the program has no source, VS Code shows it in the disassembly view
+                const sf: DebugProtocol.StackFrame = f.line === undefined
+                    ? new StackFrame(f.index, f.name)
+                    : new StackFrame(f.index, f.name, this.createSource(f.file), this.convertDebuggerLineToClient(f.line));
                 if (typeof f.column === 'number') {
                     sf.column = this.convertDebuggerColumnToClient(f.column);
                 }
                 if (typeof f.instruction === 'number') {
-                    const address = this.formatAddress(f.instruction);
+                    const address = this.formatMemoryReference(f.instruction);
                     sf.name = `${f.name} ${address}`;
                     sf.instructionPointerReference = address;
                 }
@@ -379,12 +476,20 @@ export class MockDebugSession extends LoggingDebugSession {
 
     protected scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): void {
 
+        // memory is paged by VS Code, so it is only fetched as far as the user expands it
+        const mems: DebugProtocol.Scope = new Scope("Mems", this._variableHandles.create('mems'), false);
+        mems.indexedVariables = this._runtime.getMemoryCount(this._touchedMemoryOnly);
+
         response.body = {
             scopes: [
                 new Scope("Registers", this._variableHandles.create('regs'), false),
-                new Scope("Mems", this._variableHandles.create('mems'), false)
+                mems,
+                new Scope("Labels", this._variableHandles.create('labels'), false)
             ]
         };
+        if (this._showChanges) {
+            response.body.scopes.push(new Scope("Changes", this._variableHandles.create('changes'), false));
+        }
         this.sendResponse(response);
     }
 
@@ -392,17 +497,28 @@ export class MockDebugSession extends LoggingDebugSession {
 
     protected async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments, request?: DebugProtocol.Request): Promise<void> {
 
-        let vs: RuntimeVariable[] = [];
+        let vs: DebugProtocol.Variable[] = [];
 
         const v = this._variableHandles.get(args.variablesReference);
         if (v === 'regs') {
-            vs = this._runtime.getRegisters();
-        } else if (v === 'mems') {
-            vs = this._runtime.getMemory();
+            vs = this._runtime.getRegisters().map(r => this.convertRegister(r, args.format));
+        } else if (v === 'mems' && args.filter !== 'named') {
+            const start = args.start ?? 0;
+            const count = args.count ?? this._runtime.getMemoryCount(this._touchedMemoryOnly) - start;
+            vs = this._runtime.getMemory(start, count, this._touchedMemoryOnly).map(m => this.convertMemoryWord(m, args.format));
+        } else if (v === 'labels') {
+            vs = this._runtime.getLabels().map(l => this.convertLabel(l, args.format));
+        } else if (v === 'changes') {
+            vs = this._runtime.getChanges().map(c => {
+                const mem = /^mem\[(\d+)\]$/.exec(c.name);
+                return mem
+                    ? this.convertMemoryWord(this._runtime.getMemory(parseInt(mem[1]), 1, false)[0], args.format)
+                    : this.convertRegister(this._runtime.getLocalVariable(c.name)!, args.format);
+            });
         }
 
         response.body = {
-            variables: vs.map(v => this.convertFromRuntime(v))
+            variables: vs
         };
         this.sendResponse(response);
     }
@@ -410,11 +526,38 @@ export class MockDebugSession extends LoggingDebugSession {
     protected setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments): void {
         const container = this._variableHandles.get(args.variablesReference);
 
-        const rv = container === 'regs' ? this._runtime.getLocalVariable(args.name) : undefined;
-        if (rv) {
-            rv.value = this.convertToRuntime(args.value);
-            response.body = this.convertFromRuntime(rv);
-
+        try {
+            const value = this.convertToRuntime(args.value);
+            const reg = /^reg (\d+)$/.exec(args.name);
+            // a memory word may be shown with its label, e.g. 'mem[9] neg1'
+            const mem = /^mem\[(\d+)\]/.exec(args.name);
+            // a label is shown with its address, e.g. 'neg1 (mem[9], data)'
+            const label = /^(\S+) \(mem\[\d+\]/.exec(args.name);
+            if (container === 'labels' && label) {
+                const address = this._runtime.getLabelAddress(label[1])!;
+                if (!this._runtime.isDataAddress(address)) {
+                    throw new Error(`'${label[1]}' labels an instruction, only '.fill' labels can be changed`);
+                }
+                this._runtime.setMemoryValue(address, value);
+                response.body = this.convertLabel(this._runtime.getLabels().find(l => l.name === label[1])!, args.format);
+            } else if ((container === 'regs' || container === 'changes') && reg) {
+                this._runtime.setRegisterValue(parseInt(reg[1]), value);
+                response.body = this.convertRegister(this._runtime.getLocalVariable(args.name)!, args.format);
+            } else if ((container === 'mems' || container === 'changes') && mem) {
+                const address = parseInt(mem[1]);
+                this._runtime.setMemoryValue(address, value);
+                response.body = this.convertMemoryWord(this._runtime.getMemory(address, 1, false)[0], args.format);
+            } else {
+                throw new Error(`'${args.name}' cannot be changed`);
+            }
+        } catch (e) {
+            this.sendErrorResponse(response, {
+                id: 1006,
+                format: '{message}',
+                variables: { message: e instanceof Error ? e.message : String(e) },
+                showUser: false
+            });
+            return;
         }
 
         this.sendResponse(response);
@@ -425,8 +568,13 @@ export class MockDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    protected pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments): void {
+        this._runtime.pause();
+        this.sendResponse(response);
+    }
+
     protected nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
-        this._runtime.step();
+        this._runtime.stepOver();
         this.sendResponse(response);
     }
 
@@ -435,67 +583,159 @@ export class MockDebugSession extends LoggingDebugSession {
         this.sendResponse(response);
     }
 
+    protected stepBackRequest(response: DebugProtocol.StepBackResponse, args: DebugProtocol.StepBackArguments): void {
+        this._runtime.stepBack();
+        this.sendResponse(response);
+    }
+
+    protected reverseContinueRequest(response: DebugProtocol.ReverseContinueResponse, args: DebugProtocol.ReverseContinueArguments): void {
+        this._runtime.reverseContinue();
+        this.sendResponse(response);
+    }
+
     protected stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments): void {
-        // no step out, do nothing
+        this._runtime.stepOut();
+        this.sendResponse(response);
     }
 
     protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
-        var value: DebugProtocol.Variable | undefined = undefined;
-
-        const REG_EXP_PARSER = /^reg [0-9]/g;
-        const MEM_EXP_PARSER = /^mem [0-9]/g;
-        var match: RegExpExecArray | null;
-        if (match = REG_EXP_PARSER.exec(args.expression)) {
-            const reg = this._runtime.getLocalVariable(match[0])!;
-            value = (this.convertFromRuntime(reg));
-        } else if (match = MEM_EXP_PARSER.exec(args.expression)) {
-            const NUMBER_PARSER = /\s[0-9]*/g;
-            const loc = Number(NUMBER_PARSER.exec(args.expression)!);
-            const mem: number = this._runtime.getLocalVariable('mem')?.value[loc];
-            const memVar: RuntimeVariable = new RuntimeVariable('mem', mem);
-            value = (this.convertFromRuntime(memVar));
-        }
-        const v: DebugProtocol.Variable = value ? value : {
-            name: 'eval',
-            value: 'lol, not available',
-            type: 'string',
-            variablesReference: 0,
-            evaluateName: '$'
+
+        let value: number;
+        try {
+            if (args.context === 'repl') {
+                const output = await this.executeCommand(args.expression.trim());
+                if (output !== undefined) {
+                    response.body = {
+                        result: output,
+                        variablesReference: 0
+                    };
+                    this.sendResponse(response);
+                    return;
+                }
+            }
+            value = this._runtime.evaluate(args.expression);
+        } catch (e) {
+            this.sendErrorResponse(response, {
+                id: 1005,
+                format: '{message}',
+                variables: { message: e instanceof Error ? e.message : String(e) },
+                showUser: false
+            });
+            return;
+        }
+
+        response.body = {
+            result: this.formatNumber(value, args.format?.hex ? 'hex' : undefined),
+            type: 'integer',
+            variablesReference: 0
         };
+
+        // a '.fill' label evaluates to its address and can be opened in the memory inspector
+        const address = this._runtime.getLabelAddress(args.expression.trim());
+        if (address !== undefined && this._runtime.isDataAddress(address)) {
+            response.body.memoryReference = this.formatMemoryReference(address);
+        }
+
+        this.sendResponse(response);
+    }
+
+    protected completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments): void {
+
+        // complete the word in front of the cursor
+        const column = this.convertClientColumnToDebugger(args.column);
+        const text = args.text.substring(0, column);
+        const prefix = /[A-Za-z0-9_]*$/.exec(text)![0];
+        const start = this.convertDebuggerColumnToClient(column - prefix.length);
+
+        const targets: DebugProtocol.CompletionItem[] = [];
+
+        // commands only make sense at the beginning of the input
+        if (text.substring(0, text.length - prefix.length).trim().length === 0) {
+            for (const command of COMMAND_COMPLETIONS) {
+                targets.push({ label: command.trim(), text: command, type: 'keyword' });
+            }
+        }
+        this._runtime.getRegisters().forEach((r, i) => {
+            targets.push({ label: `r${i}`, type: 'variable', detail: `${r.name} = ${this.formatNumber(Number(r.value))}` });
+        });
+        targets.push({ label: 'mem[', type: 'function', detail: 'the memory word at an address, e.g. mem[arr + r5]' });
+        for (const label of this._runtime.getLabels()) {
+            const word = this._runtime.getMemory(label.address, 1, false)[0];
+            const detail = `address ${label.address}, ${word.name} = ${this.formatNumber(Number(word.value))}`;
+            const isCode = this._runtime.isCodeAddress(label.address);
+            targets.push({ label: label.name, type: isCode ? 'function' : 'variable', detail });
+            if (!isCode) {
+                targets.push({ label: `mem[${label.name}]`, type: 'value', detail });
+            }
+        }
+
         response.body = {
-            result: v.value,
-            type: v.type,
-            variablesReference: v.variablesReference,
-            presentationHint: v.presentationHint
+            targets: targets
+                .filter(t => t.label.toLowerCase().startsWith(prefix.toLowerCase()))
+                .map(t => ({ ...t, start, length: prefix.length }))
         };
+        this.sendResponse(response);
+    }
 
+    protected readMemoryRequest(response: DebugProtocol.ReadMemoryResponse, { offset = 0, count, memoryReference }: DebugProtocol.ReadMemoryArguments): void {
+        const start = Number(memoryReference) + offset;
+        if (isNaN(start)) {
+            this.sendErrorResponse(response, {
+                id: 1004,
+                format: `'{ref}' is not a memory reference`,
+                variables: { ref: memoryReference },
+                showUser: false
+            });
+            return;
+        }
+        const data = this._runtime.readMemoryBytes(start, count);
+        response.body = {
+            address: this.formatByteAddress(Math.max(start, 0)),
+            data: base64.fromByteArray(data),
+            unreadableBytes: count - data.length
+        };
         this.sendResponse(response);
     }
 
+    protected writeMemoryRequest(response: DebugProtocol.WriteMemoryResponse, { data, memoryReference, offset = 0 }: DebugProtocol.WriteMemoryArguments): void {
+        const start = Number(memoryReference) + offset;
+        if (isNaN(start)) {
+            this.sendErrorResponse(response, {
+                id: 1004,
+                format: `'{ref}' is not a memory reference`,
+                variables: { ref: memoryReference },
+                showUser: false
+            });
+            return;
+        }
+        response.body = {
+            bytesWritten: this._runtime.writeMemoryBytes(start, base64.toByteArray(data))
+        };
+        this.sendResponse(response);
+        if (this._useInvalidatedEvent) {
+            this.sendEvent(new InvalidatedEvent(['variables']));
+        }
+    }
+
     protected setExpressionRequest(response: DebugProtocol.SetExpressionResponse, args: DebugProtocol.SetExpressionArguments): void {
 
-        if (args.expression.startsWith('$')) {
-            const rv = this._runtime.getLocalVariable(args.expression.substr(1));
-            if (rv) {
-                rv.value = this.convertToRuntime(args.value);
-                response.body = this.convertFromRuntime(rv);
-                this.sendResponse(response);
-            } else {
-                this.sendErrorResponse(response, {
-                    id: 1002,
-                    format: `variable '{lexpr}' not found`,
-                    variables: { lexpr: args.expression },
-                    showUser: true
-                });
-            }
-        } else {
+        try {
+            const target = args.expression.trim();
+            this.assign(target, this.convertToRuntime(args.value));
+            response.body = {
+                value: this.formatNumber(this._runtime.evaluate(target), args.format?.hex ? 'hex' : undefined),
+                type: 'integer'
+            };
+        } catch (e) {
             this.sendErrorResponse(response, {
                 id: 1003,
-                format: `'{lexpr}' not an assignable expression`,
-                variables: { lexpr: args.expression },
-                showUser: true
+                format: '{message}',
+                variables: { message: e instanceof Error ? e.message : String(e) },
+                showUser: false
             });
+            return;
         }
+        this.sendResponse(response);
     }
 
 
@@ -508,16 +748,28 @@ export class MockDebugSession extends LoggingDebugSession {
             canPersist: false
         };
 
-        if (args.variablesReference && args.name) {
-            const v = this._variableHandles.get(args.variablesReference);
-            if (v === 'mems') {
-                response.body.dataId = args.name;
-                response.body.description = args.name;
-                response.body.accessTypes = ["write"];
-                response.body.canPersist = true;
-            } else {
-                response.body.dataId = args.name;
-                response.body.description = args.name;
+        if (args.name) {
+            let dataId: string | undefined;
+            let description = args.name;
+            // memory words may be followed by their label, e.g. 'mem[9] neg1'
+            const access = /^(reg [0-7]|mem\[\d+\])( |$)/.exec(args.name);
+            // entries of the Labels scope show the word they label, e.g. 'neg1 (mem[9], data)'
+            const label = /^\S+ \((mem\[\d+\]), (?:code|data)\)$/.exec(args.name);
+            if (access) {
+                dataId = access[1];
+            } else if (label) {
+                dataId = label[1];
+            } else if (!args.variablesReference) {
+                // a '.fill' label watches the memory word it labels
+                const address = this._runtime.getLabelAddress(args.name);
+                if (address !== undefined && this._runtime.isDataAddress(address)) {
+                    dataId = `mem[${address}]`;
+                    description = `${args.name} (${dataId})`;
+                }
+            }
+            if (dataId) {
+                response.body.dataId = dataId;
+                response.body.description = description;
                 response.body.accessTypes = ["read", "write", "readWrite"];
                 response.body.canPersist = true;
             }
@@ -557,6 +809,45 @@ export class MockDebugSession extends LoggingDebugSession {
 
 
 
+    protected disassembleRequest(response: DebugProtocol.DisassembleResponse, args: DebugProtocol.DisassembleArguments) {
+
+        // memory references and their offset are byte addresses, instructions are words
+        const baseAddress = Math.floor((parseInt(args.memoryReference) + (args.offset || 0)) / 4);
+        const offset = args.instructionOffset || 0;
+        const count = args.instructionCount;
+
+        const loc = this.createSource(this._runtime.sourceFile);
+        let lastLine = -1;
+
+        const instructions = this._runtime.disassemble(baseAddress + offset, count).map(instruction => {
+            // VS Code also asks for the instructions outside of the memory, e.g. before address 0;
+            // exactly 'count' instructions must be returned, VS Code skips those with address -1
+            if (instruction.word === undefined) {
+                return <DebugProtocol.DisassembledInstruction>{ address: '-1', instruction: instruction.instruction };
+            }
+            const instr: DebugProtocol.DisassembledInstruction = {
+                address: this.formatMemoryReference(instruction.address),
+                instruction: instruction.instruction,
+                instructionBytes: '0x' + (instruction.word >>> 0).toString(16).padStart(8, '0')
+            };
+            if (instruction.symbol) {
+                instr.symbol = instruction.symbol;
+            }
+            // if instruction's source starts on a new line add the source to instruction
+            if (instruction.line !== undefined && lastLine !== instruction.line) {
+                lastLine = instruction.line;
+                instr.location = loc;
+                instr.line = this.convertDebuggerLineToClient(instruction.line);
+            }
+            return instr;
+        });
+
+        response.body = {
+            instructions: instructions
+        };
+        this.sendResponse(response);
+    }
+
     protected setInstructionBreakpointsRequest(response: DebugProtocol.SetInstructionBreakpointsResponse, args: DebugProtocol.SetInstructionBreakpointsArguments) {
 
         // clear all instruction breakpoints
@@ -564,10 +855,13 @@ export class MockDebugSession extends LoggingDebugSession {
 
         // set instruction breakpoints
         const breakpoints = args.breakpoints.map(ibp => {
-            const address = parseInt(ibp.instructionReference);
-            const offset = ibp.offset || 0;
+            // the reference and its offset are in bytes, like all memory references
+            const address = Math.floor((parseInt(ibp.instructionReference) + (ibp.offset || 0)) / 4);
+            const verified = this._runtime.setInstructionBreakpoint(address);
             return <DebugProtocol.Breakpoint>{
-                verified: this._runtime.setInstructionBreakpoint(address + offset)
+                verified: verified,
+                instructionReference: this.formatMemoryReference(address),
+                message: verified ? undefined : `address ${address} is outside of the memory`
             };
         });
 
@@ -584,6 +878,22 @@ export class MockDebugSession extends LoggingDebugSession {
                 this.sendEvent(new InvalidatedEvent(['variables']));
             }
             this.sendResponse(response);
+        } else if (command === 'setVariableFormat') {
+            // a memory word may be shown with its label, e.g. 'mem[9] neg1' or 'neg1 (mem[9], data)'
+            const name = /(reg \d+|mem\[\d+\])/.exec(args?.name ?? '')?.[1];
+            if (name) {
+                this._variableFormats.set(name, args.format);
+            }
+            if (this._useInvalidatedEvent) {
+                this.sendEvent(new InvalidatedEvent(['variables']));
+            }
+            this.sendResponse(response);
+        } else if (command === 'toggleMemoryView') {
+            this._touchedMemoryOnly = !this._touchedMemoryOnly;
+            if (this._useInvalidatedEvent) {
+                this.sendEvent(new InvalidatedEvent(['variables']));
+            }
+            this.sendResponse(response);
         } else {
             super.customRequest(command, response, args);
         }
@@ -591,37 +901,221 @@ export class MockDebugSession extends LoggingDebugSession {
 
     //---- helpers
 
-    private convertToRuntime(value: string): IRuntimeVariableType {
+    /*
+     * Run a gdb-style debug console command, e.g. 'x/16 arr' or 'set r3 = 0x10'.
+     * Returns the output of the command, or undefined if the text is no command but an expression.
+     * Throws an Error if the command cannot be run.
+     */
+    private async executeCommand(text: string): Promise<string | undefined> {
+
+        let match: RegExpExecArray | null;
 
-        value = value.trim();
+        // with a label named x, 'x + 1' or 'x/2 + 1' is an expression and no command
+        if (this._runtime.getLabelAddress('x') === undefined && (match = /^x(?:\/(\d+))?\s+(.+)$/.exec(text))) {
+            const count = match[1] ? parseInt(match[1]) : 1;
+            if (count > MAX_EXAMINE) {
+                throw new Error(`x shows at most ${MAX_EXAMINE} words`);
+            }
+            const address = this._runtime.evaluate(match[2]);
+            const words = address >= 0 ? this._runtime.getMemory(address, count, false) : [];
+            if (words.length === 0) {
+                throw new Error(`address ${address} is outside of the memory`);
+            }
+            return words.map((w, i) => {
+                const label = this._runtime.getLabel(address + i);
+                return `${w.name}${label ? ' ' + label : ''} = ${this.formatNumber(Number(w.value))}`;
+            }).join('\n');
+        }
 
-        if (value === 'true') {
-            return true;
+        if (/^info\s+reg(ister)?s$/.test(text)) {
+            return this._runtime.getRegisters().map(r => `${r.name} = ${this.formatNumber(Number(r.value))}`).join('\n');
         }
-        if (value === 'false') {
-            return false;
+
+        if (/^info\s+labels$/.test(text)) {
+            const labels = this._runtime.getLabels();
+            if (labels.length === 0) {
+                return 'no labels';
+            }
+            return labels.map(l => {
+                const kind = this._runtime.isCodeAddress(l.address) ? 'code' : 'data';
+                const word = this._runtime.getMemory(l.address, 1, false)[0];
+                return `${l.name} = ${l.address} (${kind}), ${word.name} = ${this.formatNumber(Number(word.value))}`;
+            }).join('\n');
+        }
+
+        if (match = /^set\s+(.+?)\s*=\s*(.+)$/.exec(text)) {
+            const target = match[1];
+            const value = this._runtime.evaluate(match[2]);
+            this.assign(target, value);
+            if (this._useInvalidatedEvent) {
+                this.sendEvent(new InvalidatedEvent(['variables']));
+            }
+            return `${target} = ${this.formatNumber(value)}`;
+        }
+
+        if (match = /^break\s+(.+)$/.exec(text)) {
+            const address = this._runtime.evaluate(match[1]);
+            const line = this._runtime.disassemble(address, 1)[0].line;
+            if (line === undefined) {
+                throw new Error(`address ${address} is outside of the program`);
+            }
+            // announce the breakpoint so that VS Code shows it like one set in the editor
+            const file = this._runtime.sourceFile;
+            const rbp = await this._runtime.setBreakPoint(file, line);
+            const bp = new Breakpoint(rbp.verified, this.convertDebuggerLineToClient(rbp.line), undefined, this.createSource(file)) as DebugProtocol.Breakpoint;
+            bp.id = rbp.id;
+            this.sendEvent(new BreakpointEvent('new', bp));
+            return `breakpoint at address ${address}, line ${bp.line}`;
+        }
+
+        if (text === 'printstate') {
+            return this.formatState();
+        }
+
+        if (text === 'help') {
+            return COMMANDS_HELP;
+        }
+
+        return undefined;
+    }
+
+    /*
+     * Assign a value to a register (r3 or reg 3) or a memory word (mem[arr + 1]).
+     */
+    private assign(target: string, value: number) {
+        const reg = /^(?:r|reg\s+)(\d+)$/.exec(target);
+        const mem = /^mem\s*\[(.+)\]$/.exec(target);
+        if (reg && this._runtime.getLabelAddress(target) === undefined) {
+            this._runtime.setRegisterValue(parseInt(reg[1]), value);
+        } else if (mem) {
+            this._runtime.setMemoryValue(this._runtime.evaluate(mem[1]), value);
+        } else {
+            throw new Error(`cannot assign to '${target}', use a register (r3) or a memory word (mem[arr])`);
         }
-        // TODO:
-        // if value is of form 'reg 0' then return a register variable
-        const reg_regex = value.match(/^reg (\d+)$/);
-        if (reg_regex) { }
-        const n = parseFloat(value);
-        if (!isNaN(n)) {
+    }
+
+    /*
+     * The machine state in the format of the EECS 370 reference simulator.
+     */
+    private formatState(): string {
+        const lines = ['@@@', 'state:', `\tpc ${this._runtime.getProgramCounter()}`, '\tmemory:'];
+        this._runtime.getMemory(0, this._runtime.getProgramSize(), false).forEach((w, i) => {
+            lines.push(`\t\tmem[ ${i} ] ${w.value}`);
+        });
+        lines.push('\tregisters:');
+        this._runtime.getRegisters().forEach((r, i) => {
+            lines.push(`\t\treg[ ${i} ] ${r.value}`);
+        });
+        lines.push('end state');
+        return lines.join('\n');
+    }
+
+    /*
+     * A new value is a 32-bit number (decimal, '0x' hex, '0b' binary) or a label, which stands for its address.
+     */
+    private convertToRuntime(value: string): number {
+
+        // drop what the variables view adds to a value, e.g. '5 (was 0)' or '8454151 (lw 0 1 five)'
+        value = value.trim().replace(/\s+\(.*\)$/, '');
+
+        const n = parseNumber(value);
+        if (n !== undefined) {
             return n;
         }
-        return value;
+        const address = this._runtime.getLabelAddress(value);
+        if (address !== undefined) {
+            return address;
+        }
+        throw new Error(`'${value}' is neither a 32-bit number nor a label`);
     }
 
-    private convertFromRuntime(v: RuntimeVariable): DebugProtocol.Variable {
+    private convertRegister(v: RuntimeVariable, format?: DebugProtocol.ValueFormat): DebugProtocol.Variable {
+        const dapVariable = this.convertFromRuntime(v, format);
+        this.markChange(v.name, dapVariable);
+        return dapVariable;
+    }
+
+    /*
+     * A memory word shows its label and, if it holds an instruction, the decoded instruction.
+     */
+    private convertMemoryWord(v: RuntimeVariable, format?: DebugProtocol.ValueFormat): DebugProtocol.Variable {
+
+        const dapVariable = this.convertFromRuntime(v, format);
+        const address = parseInt(v.name.substr(4));
+
+        const label = this._runtime.getLabel(address);
+        if (label) {
+            dapVariable.name = `${v.name} ${label}`;
+        }
+        if (this._runtime.isCodeAddress(address)) {
+            dapVariable.value += ` (${this._runtime.getInstruction(address)})`;
+            dapVariable.type = 'code';
+        } else {
+            dapVariable.type = 'data';
+        }
+        this.markChange(v.name, dapVariable);
+        return dapVariable;
+    }
+
+    /*
+     * A register or memory word written by the last step or continue shows its old value, e.g. '5 (was 0)'.
+     */
+    private markChange(name: string, dapVariable: DebugProtocol.Variable) {
+        const oldValue = this._runtime.getPreviousValue(name);
+        if (oldValue !== undefined) {
+            dapVariable.value += ` (was ${this.formatNumber(oldValue, this.getNumberFormat(name))})`;
+            dapVariable.type += `, changed from ${oldValue}`;
+        }
+    }
+
+    private getNumberFormat(name: string, format?: DebugProtocol.ValueFormat): NumberFormat | undefined {
+        return this._variableFormats.get(name) ?? (format?.hex ? 'hex' : undefined);
+    }
+
+    /*
+     * A label shows its address, whether it marks code or data, and the word at its address.
+     */
+    private convertLabel(label: IAsmLabel, format?: DebugProtocol.ValueFormat): DebugProtocol.Variable {
+
+        const dapVariable = this.convertMemoryWord(this._runtime.getMemory(label.address, 1, false)[0], format);
+        const isData = this._runtime.isDataAddress(label.address);
+
+        dapVariable.name = `${label.name} (mem[${label.address}], ${isData ? 'data' : 'code'})`;
+        if (!isData) {
+            // only the value of a '.fill' label can be changed
+            dapVariable.presentationHint = { attributes: ['readOnly'] };
+        }
+        return dapVariable;
+    }
+
+    /*
+     * The expression that evaluates to a register or memory word, e.g. 'r1' or 'mem[12]'.
+     * A label named like a register hides the register, which then is 'reg 1'.
+     */
+    private toEvaluateName(name: string): string {
+        const reg = /^reg (\d+)$/.exec(name);
+        if (reg && this._runtime.getLabelAddress(`r${reg[1]}`) === undefined) {
+            return `r${reg[1]}`;
+        }
+        return name;
+    }
+
+    private convertFromRuntime(v: RuntimeVariable, format?: DebugProtocol.ValueFormat): DebugProtocol.Variable {
 
         let dapVariable: DebugProtocol.Variable = {
             name: v.name,
             value: '???',
             type: typeof v.value,
             variablesReference: 0,
-            evaluateName: '$' + v.name
+            evaluateName: this.toEvaluateName(v.name)
         };
 
+        // memory words can be opened in the memory inspector
+        const mem = /^mem\[(\d+)\]$/.exec(v.name);
+        if (mem) {
+            dapVariable.memoryReference = this.formatMemoryReference(parseInt(mem[1]));
+        }
+
         if (v.name.indexOf('lazy') >= 0) {
             // a "lazy" variable needs an additional click to retrieve its value
 
@@ -640,7 +1134,7 @@ export class MockDebugSession extends LoggingDebugSession {
                 switch (typeof v.value) {
                     case 'number':
                         if (Math.round(v.value) === v.value) {
-                            dapVariable.value = this.formatNumber(v.value);
+                            dapVariable.value = this.formatNumber(v.value, this.getNumberFormat(v.name, format));
                             (<any>dapVariable).__vscodeVariableMenuContext = 'simple';	// enable context menu contribution
                             dapVariable.type = 'integer';
                         } else {
@@ -666,12 +1160,43 @@ export class MockDebugSession extends LoggingDebugSession {
         return dapVariable;
     }
 
-    private formatAddress(x: number, pad = 8) {
-        return this._addressesInHex ? '0x' + x.toString(16).padStart(8, '0') : x.toString(10);
+    // the memory reference of a word is its byte address, every word takes 4 bytes;
+    // readMemory, writeMemory, disassemble and instruction breakpoints all use byte addresses
+    private formatMemoryReference(address: number) {
+        return this.formatByteAddress(address * 4);
+    }
+
+    private formatByteAddress(x: number) {
+        return '0x' + x.toString(16).padStart(8, '0');
     }
 
-    private formatNumber(x: number) {
-        return this._valuesInHex ? '0x' + x.toString(16) : x.toString(10);
+    /*
+     * Format a 32-bit word, by default as signed decimal or, after 'toggleFormatting', as hex.
+     * 'fields' splits the binary digits into the LC2K instruction fields.
+     */
+    private formatNumber(x: number, format: NumberFormat = this._valuesInHex ? 'hex' : 'signed') {
+        const bits = (x >>> 0).toString(2).padStart(32, '0');
+        switch (format) {
+            case 'unsigned':
+                return (x >>> 0).toString(10);
+            case 'hex':
+                return '0x' + (x >>> 0).toString(16).padStart(8, '0');
+            case 'binary':
+                return '0b' + bits;
+            case 'fields': {
+                // bits 31-25 are unused, then opcode, regA, regB and either the 16-bit offset
+                // or, for 'add' and 'nor', 13 unused bits and destReg
+                const fields = [bits.substr(0, 7), bits.substr(7, 3), bits.substr(10, 3), bits.substr(13, 3)];
+                if (((x >> 22) & 0x7) <= 1) {
+                    fields.push(bits.substr(16, 13), bits.substr(29));
+                } else {
+                    fields.push(bits.substr(16));
+                }
+                return fields.join(' ');
+            }
+            default:
+                return (x | 0).toString(10);
+        }
     }
 
     private createSource(filePath: string): Source {
@@ -3,6 +3,8 @@
  *--------------------------------------------------------*/
 
 import { EventEmitter } from 'events';
+import { assemble, decode, disassemble, AsmErrorKind, IAsmError, IAsmLabel, IAsmStatement } from './lc2kAssembler';
+import { evaluateExpression } from './lc2kExpression';
 
 export interface FileAccessor {
     isWindows: boolean;
@@ -14,6 +16,22 @@ export interface IRuntimeBreakpoint {
     id: number;
     line: number;
     verified: boolean;
+    message?: string;
+}
+
+// a source breakpoint with its optional condition, hit condition and log message
+interface IRuntimeSourceBreakpoint extends IRuntimeBreakpoint {
+    condition?: string;
+    hitCondition?: string;
+    logMessage?: string;
+    // how often the condition was met
+    hits: number;
+}
+
+// a breakpoint on the address of a label
+interface IRuntimeFunctionBreakpoint extends IRuntimeBreakpoint {
+    name: string;
+    address?: number;
 }
 
 export enum RuntimeException {
@@ -21,14 +39,45 @@ export enum RuntimeException {
     InvalidLabel,
     InvalidRegister,
     InvalidMemory,
+    InstructionLimit,
+    CodeWrite,
     None
 }
 
+// how an exception is explained to the user, in the exception widget and in the editor diagnostics
+export const EXCEPTION_MESSAGES: { [type in RuntimeException]?: { description: string, explanation: string } } = {
+    [RuntimeException.InvalidInstruction]: {
+        description: "Invalid instruction",
+        explanation: "There are only 8 valid instruction, are you using one of them?"
+    },
+    [RuntimeException.InvalidMemory]: {
+        description: "Invalid memory access",
+        explanation: "You are trying to access memory that is not accessable by LC2K"
+    },
+    [RuntimeException.InvalidRegister]: {
+        description: "Invalid register access",
+        explanation: "Please notice that there are only 8 registers so you can only access R0-R7"
+    },
+    [RuntimeException.InvalidLabel]: {
+        description: "Invalid label",
+        explanation: "Have you defined it before?"
+    },
+    [RuntimeException.CodeWrite]: {
+        description: "Write to program code",
+        explanation: "A 'sw' changed one of the program's instructions. Disable the 'Writes to Program Code' exception filter if the program modifies itself on purpose."
+    },
+    [RuntimeException.InstructionLimit]: {
+        description: "Instruction limit exceeded",
+        explanation: "The program did not halt within 'maxInstructions' instructions. Is there a loop whose exit condition is never met? Continue to run another 'maxInstructions' instructions."
+    }
+};
+
 interface IRuntimeStackFrame {
     index: number;
     name: string;
     file: string;
-    line: number;
+    // undefined for an address outside of the program
+    line?: number;
     column?: number;
     instruction?: number;
 }
@@ -38,6 +87,40 @@ interface IRuntimeStack {
     frames: IRuntimeStackFrame[];
 }
 
+// a subroutine entered by 'jalr'
+interface IRuntimeCallFrame {
+    // the label of the subroutine
+    name: string;
+    // the address stored in the link register
+    returnAddress: number;
+}
+
+// everything needed to undo one executed instruction
+interface IRuntimeUndoRecord {
+    address: number;
+    registers: [number, IRuntimeVariableType][];
+    memory: [number, number][];
+    callStack?: IRuntimeCallFrame[];
+    // the registers and memory words read by the instruction, e.g. 'reg 1' or 'mem[12]'
+    reads: string[];
+}
+
+// a register or memory word written since the program last stopped
+export interface IRuntimeChange {
+    // e.g. 'reg 1' or 'mem[12]'
+    name: string;
+    oldValue: number;
+    value: number;
+}
+
+interface IRuntimeDisassembledInstruction {
+    address: number;
+    instruction: string;
+    word?: number;
+    symbol?: string;
+    line?: number;
+}
+
 
 export type IRuntimeVariableType = number | boolean | string | RuntimeVariable[];
 
@@ -65,6 +148,56 @@ interface Word {
     index: number;
 }
 
+// the number of executed instructions that can be undone
+const MAX_HISTORY = 100000;
+
+// LC2K memory holds 65536 32-bit words, shared by instructions and data
+const MEMORY_SIZE = 65536;
+
+// the exception raised when an instruction with an assembler error of the given kind is executed
+export const ERROR_EXCEPTIONS: { [kind in AsmErrorKind]: RuntimeException } = {
+    opcode: RuntimeException.InvalidInstruction,
+    register: RuntimeException.InvalidRegister,
+    label: RuntimeException.InvalidLabel,
+    duplicate: RuntimeException.InvalidLabel,
+    name: RuntimeException.InvalidLabel,
+    offset: RuntimeException.InvalidInstruction,
+    field: RuntimeException.InvalidInstruction
+};
+
+// explanations of the assembler errors that the exception raised for them does not explain well
+const ASSEMBLER_ERROR_MESSAGES: { [kind in AsmErrorKind]?: { description: string, explanation: string } } = {
+    duplicate: {
+        description: "Duplicate label",
+        explanation: "Every label can be defined only once, rename one of the definitions."
+    },
+    name: {
+        description: "Invalid label name",
+        explanation: "LC2K labels have at most 6 characters and start with a letter."
+    },
+    offset: {
+        description: "Offset out of range",
+        explanation: "Offsets of 'lw', 'sw' and 'beq' are 16-bit numbers from -32768 to 32767, a 'beq' label must not be further away than that."
+    },
+    field: {
+        description: "Missing field",
+        explanation: "'add' and 'nor' take 3 registers, 'lw', 'sw' and 'beq' take 2 registers and an offset, 'jalr' takes 2 registers and '.fill' takes a value."
+    }
+};
+
+/**
+ * How an assembler error is explained, in the exception widget and in the editor diagnostics.
+ */
+export function assemblerErrorMessage(kind: AsmErrorKind): { description: string, explanation: string } | undefined {
+    return ASSEMBLER_ERROR_MESSAGES[kind] ?? EXCEPTION_MESSAGES[ERROR_EXCEPTIONS[kind]];
+}
+
+// the number of instructions a run executes before it yields so that a 'pause' can be handled
+const YIELD_INTERVAL = 10000;
+
+// the number of instructions after which a program is considered to be stuck in an infinite loop
+const DEFAULT_MAX_INSTRUCTIONS = 1000000;
+
 export function timeout(ms: number) {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -93,35 +226,70 @@ export class MockRuntime extends EventEmitter {
     }
 
     private variables = new Map<string, RuntimeVariable>();
-    // array stores label maps line
-    private labels: Word[] = [];
+    // the labels of the program and their addresses
+    private labels = new Map<string, IAsmLabel>();
 
     // the contents (= lines) of the one and only file
     private sourceLines: string[] = [];
-    // This is the next line that will be 'executed'
-    private _currentLine = 0;
-    private get currentLine() {
-        return this._currentLine;
-    }
-    private set currentLine(x) {
-        this._currentLine = x;
-    }
+    // maps every address of the program to its line in the shown source file
+    private addressToLine: number[] = [];
+    // a launched '.mc' file and the line of every word in it, also when its '.as' file is shown instead
+    private machineCodeFile: string | undefined;
+    private machineCodeLines: number[] = [];
+    // the machine-code word and the assembly statement (if known) of every address
+    private programWords: number[] = [];
+    private statements: (IAsmStatement | undefined)[] = [];
+    // the addresses of the program that hold data instead of instructions
+    private dataAddresses = new Set<number>();
+    // the addresses accessed by 'lw' and 'sw' or written by the debugger, besides the program itself
+    private touchedAddresses = new Set<number>();
+    // the problems found by the assembler, by source line
+    private assemblyErrors: IAsmError[] = [];
+
+    // the program counter: the address of the next instruction that will be executed
+    private pc = 0;
     private currentColumn: number | undefined;
 
-    // This is the next instruction that will be 'executed'
-
     // maps from sourceFile to array of IRuntimeBreakpoint
-    private breakPoints = new Map<string, IRuntimeBreakpoint[]>();
+    private breakPoints = new Map<string, IRuntimeSourceBreakpoint[]>();
 
     // all instruction breakpoint addresses
     private instructionBreakpoints = new Set<number>();
 
+    // function breakpoints are labels, resolved to addresses once the program is loaded
+    private functionBreakpoints: IRuntimeFunctionBreakpoint[] = [];
+
     // since we want to send breakpoint events, we will assign an id to every event
     // so that the frontend can match events with breakpoints.
     private breakpointId = 1;
 
     private breakAddresses = new Map<string, string>();
 
+    // undo records of the executed instructions (most recent last) for reverse debugging
+    private history: IRuntimeUndoRecord[] = [];
+    // true once the oldest records were dropped, so that the start of the history is no longer the entry
+    private historyTrimmed = false;
+    // the record of the instruction currently being executed
+    private undoRecord: IRuntimeUndoRecord | undefined;
+
+    // the subroutines entered by 'jalr' (innermost last)
+    private callStack: IRuntimeCallFrame[] = [];
+
+    // the value every register and memory word written since the last stop had before, e.g. 'reg 1' or 'mem[12]'
+    private changes = new Map<string, number>();
+
+    // set by 'pause' and checked whenever a run yields
+    private pauseRequested = false;
+    // set by 'stop' when the debug session ends, a running program then ends at the next yield
+    private stopRequested = false;
+
+    // instructions executed since the program was started or last hit the instruction limit
+    private instructionCount = 0;
+    private maxInstructions = DEFAULT_MAX_INSTRUCTIONS;
+
+    // stop with an exception when a 'sw' overwrites an instruction of the program
+    private breakOnCodeWrite = false;
+
 
     constructor(private fileAccessor: FileAccessor) {
         super();
@@ -130,20 +298,33 @@ export class MockRuntime extends EventEmitter {
             this.variables.set(`reg ${i}`, new RuntimeVariable(`reg ${i}`, 0));
         }
         // create local vectors: mem
-        this.variables.set('mem', new RuntimeVariable('mem', new Array(1000).fill(0)));
+        this.variables.set('mem', new RuntimeVariable('mem', new Array(MEMORY_SIZE).fill(0)));
     }
 
     /**
      * Start executing the given program.
+     * Throws an Error if the program cannot be loaded, e.g. because a machine-code line is no number.
      */
-    public async start(program: string, stopOnEntry: boolean, debug: boolean): Promise<void> {
+    public async start(program: string, stopOnEntry: boolean, debug: boolean, maxInstructions = DEFAULT_MAX_INSTRUCTIONS): Promise<void> {
+
+        this.maxInstructions = maxInstructions;
+        this.instructionCount = 0;
 
-        await this.loadSource(this.normalizePathAndCasing(program));
+        if (/\.mc$/i.test(program)) {
+            await this.loadMachineCode(this.normalizePathAndCasing(program));
+        } else {
+            await this.loadSource(this.normalizePathAndCasing(program));
+        }
 
         if (debug) {
-            await this.verifyBreakpoints(this._sourceFile);
+            // breakpoints may be set in the shown source and in the launched machine code
+            for (const path of this.breakPoints.keys()) {
+                await this.verifyBreakpoints(path);
+            }
+            this.verifyFunctionBreakpoints();
 
-            if (stopOnEntry) {
+            // a program with errors stops first, so that the reported errors can be looked at
+            if (stopOnEntry || this.assemblyErrors.length > 0) {
                 this.findNextStatement('stopOnEntry');
             } else {
                 // we just start to run until we hit a breakpoint, an exception, or the end of the program
@@ -157,77 +338,197 @@ export class MockRuntime extends EventEmitter {
     /**
      * Continue execution to the end/beginning.
      */
-    public continue() {
+    public continue(): Promise<void> {
+        // no subroutine depth is ever reached, so this only stops at breakpoints, exceptions, a pause or the end
+        return this.runToDepth(-1);
+    }
 
-        while (!this.executeLine(this.currentLine)) {
-            if (this.updateCurrentLine()) {
-                break;
-            }
-            if (this.findNextStatement()) {
-                break;
-            }
-        }
+    /**
+     * Stop a running program at the next instruction it yields on.
+     */
+    public pause() {
+        this.pauseRequested = true;
     }
 
     /**
-     * Step to the next/previous non empty line.
+     * End the program for good, e.g. because the debug session was disconnected.
+     * A running program ends at the next instruction it yields on, nothing runs afterwards.
      */
-    public step() {
+    public stop() {
+        this.stopRequested = true;
+    }
 
+    /**
+     * Execute the next instruction.
+     */
+    public step() {
 
-        if (!this.executeLine(this.currentLine)) {
-            if (!this.updateCurrentLine()) {
+        this.changes.clear();
+        if (!this.executeLine(this.pc)) {
+            if (!this.endOfProgram() && !this.stopOnDataBreakpoint()) {
                 this.findNextStatement('stopOnStep');
             }
         }
 
     }
 
-    private updateCurrentLine(): boolean {
+    /**
+     * Step over the next instruction: a 'jalr' that calls a subroutine runs until the subroutine has returned.
+     */
+    public stepOver(): Promise<void> {
+        return this.runToDepth(this.callStack.length);
+    }
 
-        if (this.currentLine < this.sourceLines.length - 1) {
-            this.currentLine++;
+    /**
+     * Run until the current subroutine returns through its link register.
+     */
+    public stepOut(): Promise<void> {
+        return this.runToDepth(this.callStack.length - 1);
+    }
+
+    /**
+     * Undo the most recently executed instruction.
+     */
+    public stepBack() {
+        this.changes.clear();
+        if (this.undoLine()) {
+            this.sendEvent('stopOnStep');
         } else {
-            // no more lines: run to end
-            this.currentColumn = undefined;
-            this.sendEvent('end');
-            return true;
+            this.stopAtHistoryStart();
         }
+    }
 
-        return false;
+    /**
+     * Undo executed instructions until a breakpoint, a data breakpoint or the beginning of the history is reached.
+     */
+    public reverseContinue() {
+        this.changes.clear();
+        while (true) {
+            // describe the hit before the undo changes the values
+            const hit = this.findDataBreakpoint(this.history[this.history.length - 1]);
+            if (!this.undoLine()) {
+                this.stopAtHistoryStart();
+                break;
+            }
+            if (hit) {
+                this.sendEvent('stopOnDataBreakpoint', hit);
+                break;
+            }
+            if (this.hasBreakpoint(this.pc, true)) {
+                break;
+            }
+        }
     }
 
+    /*
+     * Run until at most 'depth' subroutines are active, a breakpoint or an exception is hit, or the program ends.
+     * The run regularly yields to the event loop, so that a program that never halts can be paused.
+     */
+    private async runToDepth(depth: number) {
 
-    // TODO:
-    // use jalr to record stack frame
-    public stack(startFrame: number, endFrame: number): IRuntimeStack {
+        this.pauseRequested = false;
+        this.changes.clear();
+        let executed = 0;
+        while (!this.executeLine(this.pc)) {
+            if (this.endOfProgram()) {
+                break;
+            }
+            if (this.stopOnDataBreakpoint()) {
+                break;
+            }
+            if (this.callStack.length <= depth) {
+                this.findNextStatement('stopOnStep');
+                break;
+            }
+            if (this.findNextStatement()) {
+                break;
+            }
+            if (++executed % YIELD_INTERVAL === 0) {
+                await timeout(0);
+                if (this.stopRequested) {
+                    break;
+                }
+                if (this.pauseRequested) {
+                    this.sendEvent('stopOnPause');
+                    break;
+                }
+            }
+        }
+    }
 
-        const line = this.getLine();
-        const words = this.getWords(this.currentLine, line);
-        words.push({ name: 'BOTTOM', line: -1, index: -1 });	// add a sentinel so that the stack is never empty...
+    /*
+     * Returns true and ends the session if the program counter left the memory.
+     */
+    private endOfProgram(): boolean {
 
-        // if the line contains the word 'disassembly' we support to "disassemble" the line by adding an 'instruction' property to the stackframe
+        // instructions are fetched from the whole memory, a program normally ends with 'halt' instead
+        if (this.pc >= 0 && this.pc < MEMORY_SIZE) {
+            return false;
+        }
+        const address = this.history[this.history.length - 1]?.address ?? 0;
+        this.sendEvent('output', 'err', `Error: the program counter ${this.pc} left the memory (0 to ${MEMORY_SIZE - 1})`, this._sourceFile, this.sourceLine(address));
+        this.currentColumn = undefined;
+        this.sendEvent('end');
+        return true;
+    }
+
+
+    /*
+     * Build the call stack from the subroutine calls recorded for 'jalr'.
+     * The innermost frame shows the current instruction, every other frame shows where its callee returns to.
+     */
+    public stack(startFrame: number, endFrame: number): IRuntimeStack {
 
         const column = typeof this.currentColumn === 'number' ? this.currentColumn : undefined;
 
         const frames: IRuntimeStackFrame[] = [];
 
+        // the current instruction and the return address of every call, innermost first
+        const addresses = [this.pc].concat(this.callStack.map(f => f.returnAddress).reverse());
+        const count = addresses.length;
+
+        for (let i = startFrame; i < Math.min(endFrame, count); i++) {
+            const depth = count - 1 - i;
+            const name = depth > 0 ? this.callStack[depth - 1].name : 'main';
+            const address = addresses[i];
+            const stackFrame: IRuntimeStackFrame = {
+                index: i,
+                name: `${name}: ${this.getInstruction(address)}`,	// use the function and the instruction as the stackframe name
+                file: this._sourceFile,
+                line: this.sourceLine(address),
+                column: i === 0 ? column : undefined,
+                instruction: address
+            };
+            frames.push(stackFrame);
+        }
 
-        const stackFrame: IRuntimeStackFrame = {
-            index: 0,
-            name: line,	// use a word of the line as the stackframe name
-            file: this._sourceFile,
-            line: this.currentLine,
-            column: column, // words[i].index
+        return {
+            frames: frames,
+            count: count
         };
+    }
 
-        frames.push(stackFrame);
+    /*
+     * Return the memory words from the given address as (dis)assembled instructions.
+     * Addresses outside of the program are returned as invalid instructions.
+     */
+    public disassemble(address: number, instructionCount: number): IRuntimeDisassembledInstruction[] {
 
+        const mem = this.variables.get('mem')!.value;
+        const instructions: IRuntimeDisassembledInstruction[] = [];
 
-        return {
-            frames: frames,
-            count: words.length
-        };
+        for (let a = address; a < address + instructionCount; a++) {
+            if (a < 0 || a >= MEMORY_SIZE) {
+                instructions.push({ address: a, instruction: '??' });
+                continue;
+            }
+            const statement = this.statements[a];
+            // show the memory contents so that data written by 'sw' is shown
+            const word: number = mem[a];
+            const instruction = statement?.opcode?.text === '.fill' ? `.fill ${word}` : disassemble(word);
+            instructions.push({ address: a, instruction, word, symbol: statement?.label?.text, line: this.addressToLine[a] });
+        }
+        return instructions;
     }
 
     /*
@@ -241,13 +542,13 @@ export class MockRuntime extends EventEmitter {
     /*
      * Set breakpoint in file with given line.
      */
-    public async setBreakPoint(path: string, line: number): Promise<IRuntimeBreakpoint> {
+    public async setBreakPoint(path: string, line: number, condition?: string, hitCondition?: string, logMessage?: string): Promise<IRuntimeBreakpoint> {
         path = this.normalizePathAndCasing(path);
 
-        const bp: IRuntimeBreakpoint = { verified: false, line, id: this.breakpointId++ };
+        const bp: IRuntimeSourceBreakpoint = { verified: false, line, id: this.breakpointId++, condition, hitCondition, logMessage, hits: 0 };
         let bps = this.breakPoints.get(path);
         if (!bps) {
-            bps = new Array<IRuntimeBreakpoint>();
+            bps = new Array<IRuntimeSourceBreakpoint>();
             this.breakPoints.set(path, bps);
         }
         bps.push(bp);
@@ -277,8 +578,15 @@ export class MockRuntime extends EventEmitter {
         this.breakPoints.delete(this.normalizePathAndCasing(path));
     }
 
+    /*
+     * Set a data breakpoint on a register ('reg 3') or a memory word ('mem[12]').
+     */
     public setDataBreakpoint(address: string, accessType: 'read' | 'write' | 'readWrite'): boolean {
 
+        if (!/^(reg [0-7]|mem\[\d+\])$/.test(address)) {
+            return false;
+        }
+
         const x = accessType === 'readWrite' ? 'read write' : accessType;
 
         const t = this.breakAddresses.get(address);
@@ -297,6 +605,9 @@ export class MockRuntime extends EventEmitter {
     }
 
     public setInstructionBreakpoint(address: number): boolean {
+        if (address < 0 || address >= MEMORY_SIZE) {
+            return false;
+        }
         this.instructionBreakpoints.add(address);
         return true;
     }
@@ -305,6 +616,23 @@ export class MockRuntime extends EventEmitter {
         this.instructionBreakpoints.clear();
     }
 
+    /*
+     * Set a breakpoint on the given label, e.g. 'mult1'.
+     * Labels of a program that is not loaded yet are verified later.
+     */
+    public setFunctionBreakpoint(name: string): IRuntimeBreakpoint {
+        const bp: IRuntimeFunctionBreakpoint = { verified: false, line: -1, id: this.breakpointId++, name };
+        this.functionBreakpoints.push(bp);
+        if (this.sourceLines.length > 0) {
+            this.resolveFunctionBreakpoint(bp);
+        }
+        return bp;
+    }
+
+    public clearFunctionBreakpoints(): void {
+        this.functionBreakpoints = [];
+    }
+
     public getRegisters(): RuntimeVariable[] {
         var regs: RuntimeVariable[] = [];
         for (let i = 0; i < 8; i++) {
@@ -312,28 +640,200 @@ export class MockRuntime extends EventEmitter {
         }
         return regs;
     }
-    public getMemory(): RuntimeVariable[] {
+
+    /*
+     * The number of memory words listed by getMemory.
+     */
+    public getMemoryCount(touchedOnly: boolean): number {
+        return touchedOnly ? this.getTouchedAddresses().length : MEMORY_SIZE;
+    }
+
+    /*
+     * Return 'count' memory words as 'mem[address]' variables, starting with the 'start'th listed word.
+     * Every address is listed, or only the program and the words accessed while running.
+     */
+    public getMemory(start: number, count: number, touchedOnly: boolean): RuntimeVariable[] {
+        const mem = this.variables.get('mem')!.value;
+        const addresses = touchedOnly ? this.getTouchedAddresses() : undefined;
+        const end = Math.min(start + count, addresses ? addresses.length : MEMORY_SIZE);
         var mems: RuntimeVariable[] = [];
-        for (let i = 0; i < 300; i++) {
-            const v = this.variables.get(`mem`)!.value[i];
-            if (v) {
-                mems.push(new RuntimeVariable(`mem[${i}]`, v));
-            }
+        for (let i = Math.max(start, 0); i < end; i++) {
+            const address = addresses ? addresses[i] : i;
+            mems.push(new RuntimeVariable(`mem[${address}]`, mem[address]));
         }
         return mems;
     }
 
 
 
+    /*
+     * Read 'count' bytes of memory starting at the given byte offset.
+     * Every word is stored as 4 little-endian bytes; bytes outside of the memory are left out.
+     */
+    public readMemoryBytes(offset: number, count: number): Uint8Array {
+        const mem = this.variables.get('mem')!.value;
+        const start = Math.max(offset, 0);
+        const end = Math.min(offset + count, MEMORY_SIZE * 4);
+        const bytes = new Uint8Array(Math.max(end - start, 0));
+        for (let b = start; b < end; b++) {
+            bytes[b - start] = (mem[b >> 2] >>> (8 * (b & 3))) & 0xFF;
+        }
+        return bytes;
+    }
+
+    /*
+     * Write the bytes into memory starting at the given byte offset.
+     * Returns the number of bytes written, bytes outside of the memory are dropped.
+     */
+    public writeMemoryBytes(offset: number, data: Uint8Array): number {
+        const mem = this.variables.get('mem')!.value;
+        let written = 0;
+        for (let i = 0; i < data.length; i++) {
+            const b = offset + i;
+            if (b < 0 || b >= MEMORY_SIZE * 4) {
+                continue;
+            }
+            const shift = 8 * (b & 3);
+            mem[b >> 2] = (mem[b >> 2] & ~(0xFF << shift)) | (data[i] << shift);
+            this.touchedAddresses.add(b >> 2);
+            written++;
+        }
+        return written;
+    }
+
+    public getLabelAddress(name: string): number | undefined {
+        return this.labels.get(name)?.address;
+    }
+
+    public getLabel(address: number): string | undefined {
+        return this.statements[address]?.label?.text;
+    }
+
+    public getLabels(): IAsmLabel[] {
+        return Array.from(this.labels.values());
+    }
+
+    public getProgramCounter(): number {
+        return this.pc;
+    }
+
+    // the number of words of the loaded program
+    public getProgramSize(): number {
+        return this.programWords.length;
+    }
+
+    /*
+     * Change a register from the debugger, e.g. from the debug console.
+     */
+    public setRegisterValue(reg: number, value: number): void {
+        if (reg < 0 || reg > 7) {
+            throw new Error(`'${reg}' is not a register, only registers 0-7 exist`);
+        }
+        this.variables.get(`reg ${reg}`)!.value = value | 0;
+    }
+
+    /*
+     * Change a memory word from the debugger, e.g. from the debug console.
+     */
+    public setMemoryValue(address: number, value: number): void {
+        if (address < 0 || address >= MEMORY_SIZE) {
+            throw new Error(`address ${address} is outside of the memory (0 to ${MEMORY_SIZE - 1})`);
+        }
+        this.variables.get('mem')!.value[address] = value | 0;
+        this.touchedAddresses.add(address);
+    }
+
+    /*
+     * Returns true if the given address holds '.fill' data instead of an instruction.
+     */
+    public isDataAddress(address: number): boolean {
+        return this.dataAddresses.has(address);
+    }
+
+    /*
+     * Returns true if the address holds one of the program's instructions (as opposed to data or free memory).
+     */
+    public isCodeAddress(address: number): boolean {
+        return address < this.programWords.length && !this.isDataAddress(address);
+    }
+
+    /*
+     * The instruction at the given address without label and comment.
+     */
+    public getInstruction(address: number): string {
+        const statement = this.statements[address];
+        const word: number | undefined = this.variables.get('mem')!.value[address];
+        // show the source unless the program has overwritten the instruction
+        if (statement?.opcode && word === this.programWords[address]) {
+            return [statement.opcode, ...statement.fields].map(t => t.text).join(' ');
+        }
+        return word === undefined ? '' : disassemble(word);
+    }
+
+    /*
+     * Enable or disable the exception filter for writes into the program code.
+     */
+    public setExceptionsFilters(codeWrite: boolean): void {
+        this.breakOnCodeWrite = codeWrite;
+    }
+
+    /**
+     * Evaluate an expression like 'r3 == 5' or 'mem[arr + r5]' against the current state.
+     * Throws an Error if the expression is invalid.
+     */
+    public evaluate(expression: string): number {
+        return evaluateExpression(expression, {
+            getRegister: reg => Number(this.variables.get(`reg ${reg}`)!.value),
+            getMemory: address => {
+                if (address < 0 || address >= MEMORY_SIZE) {
+                    throw new Error(`address ${address} is outside of the memory (0 to ${MEMORY_SIZE - 1})`);
+                }
+                return this.variables.get('mem')!.value[address];
+            },
+            getLabelAddress: name => this.getLabelAddress(name)
+        });
+    }
+
     public getLocalVariable(name: string): RuntimeVariable | undefined {
         return this.variables.get(name);
     }
 
+    /**
+     * The registers and memory words whose value changed since the program last stopped,
+     * registers first and memory words by address.
+     */
+    public getChanges(): IRuntimeChange[] {
+        const changes: IRuntimeChange[] = [];
+        for (const [name, oldValue] of this.changes) {
+            const value = this.getValue(name);
+            if (value !== oldValue) {
+                changes.push({ name, oldValue, value });
+            }
+        }
+        const order = (name: string) => name.startsWith('reg') ? parseInt(name.substr(4)) - 8 : parseInt(name.substr(4));
+        return changes.sort((a, b) => order(a.name) - order(b.name));
+    }
+
+    /**
+     * The value a register or memory word (e.g. 'reg 1' or 'mem[12]') had when the program last stopped,
+     * or undefined if it did not change since.
+     */
+    public getPreviousValue(name: string): number | undefined {
+        const oldValue = this.changes.get(name);
+        return oldValue !== undefined && oldValue !== this.getValue(name) ? oldValue : undefined;
+    }
+
 
     // private methods
 
-    private getLine(line?: number): string {
-        return this.sourceLines[line === undefined ? this.currentLine : line];
+    private getLine(line: number): string {
+        return this.sourceLines[line] ?? '';
+    }
+
+    // the program and the accessed addresses in ascending order
+    private getTouchedAddresses(): number[] {
+        const addresses = Array.from(this.touchedAddresses).filter(a => a >= this.programWords.length);
+        return this.programWords.map((_, a) => a).concat(addresses.sort((a, b) => a - b));
     }
 
     private getWords(l: number, line: string): Word[] {
@@ -347,175 +847,446 @@ export class MockRuntime extends EventEmitter {
         return words;
     }
 
+    private readRegister(reg: number): number {
+        this.undoRecord?.reads.push(`reg ${reg}`);
+        return Number(this.variables.get(`reg ${reg}`)!.value);
+    }
+
+    private readMemory(address: number): number {
+        this.undoRecord?.reads.push(`mem[${address}]`);
+        this.touchedAddresses.add(address);
+        return this.variables.get('mem')!.value[address];
+    }
+
+    private setRegister(reg: number, value: number) {
+        const v = this.variables.get(`reg ${reg}`)!;
+        this.undoRecord?.registers.push([reg, v.value]);
+        this.recordChange(`reg ${reg}`);
+        v.value = value;
+    }
+
+    private setMemory(address: number, value: number) {
+        const mem = this.variables.get('mem')!.value;
+        this.undoRecord?.memory.push([address, mem[address]]);
+        this.recordChange(`mem[${address}]`);
+        this.touchedAddresses.add(address);
+        mem[address] = value;
+    }
+
+    // remember the value of a register or memory word before its first write since the last stop
+    private recordChange(name: string) {
+        if (!this.changes.has(name)) {
+            this.changes.set(name, this.getValue(name));
+        }
+    }
+
+    private getValue(name: string): number {
+        return name.startsWith('reg') ? Number(this.variables.get(name)!.value) : this.variables.get('mem')!.value[parseInt(name.substr(4))];
+    }
+
+    /*
+     * Restore the state before the most recently executed instruction.
+     * Returns false if there is nothing to undo.
+     */
+    private undoLine(): boolean {
+        const record = this.history.pop();
+        if (!record) {
+            return false;
+        }
+        const mem = this.variables.get('mem')!.value;
+        // undo in reverse order in case an instruction wrote the same location twice
+        for (const [address, value] of record.memory.reverse()) {
+            this.recordChange(`mem[${address}]`);
+            mem[address] = value;
+        }
+        for (const [reg, value] of record.registers.reverse()) {
+            this.recordChange(`reg ${reg}`);
+            this.variables.get(`reg ${reg}`)!.value = value;
+        }
+        if (record.callStack) {
+            this.callStack = record.callStack;
+        }
+        this.pc = record.address;
+        return true;
+    }
+
+    /*
+     * Check the accesses of an executed instruction against the data breakpoints.
+     * Returns a description of the first access that hits a data breakpoint.
+     */
+    private findDataBreakpoint(record: IRuntimeUndoRecord | undefined): string | undefined {
+        if (!record || this.breakAddresses.size === 0) {
+            return undefined;
+        }
+        const mem = this.variables.get('mem')!.value;
+        for (const [reg, value] of record.registers) {
+            const name = `reg ${reg}`;
+            if (this.breakAddresses.get(name)?.includes('write')) {
+                return `${name} changed from ${value} to ${this.variables.get(name)!.value}`;
+            }
+        }
+        for (const [address, value] of record.memory) {
+            const name = `mem[${address}]`;
+            if (this.breakAddresses.get(name)?.includes('write')) {
+                return `${name} changed from ${value} to ${mem[address]}`;
+            }
+        }
+        for (const name of record.reads) {
+            if (this.breakAddresses.get(name)?.includes('read')) {
+                const value = name.startsWith('reg') ? this.variables.get(name)!.value : mem[parseInt(name.substr(4))];
+                return `${name} read (value ${value})`;
+            }
+        }
+        return undefined;
+    }
+
+    /*
+     * Returns true and stops if the instruction just executed hit a data breakpoint.
+     */
+    private stopOnDataBreakpoint(): boolean {
+        const hit = this.findDataBreakpoint(this.history[this.history.length - 1]);
+        if (hit) {
+            this.findNextStatement('stopOnDataBreakpoint', hit);
+            return true;
+        }
+        return false;
+    }
+
+    /*
+     * Returns true and sends a stop event if there is an instruction, source or function breakpoint at the given address.
+     */
+    private hasBreakpoint(address: number, reverse = false): boolean {
+
+        // is there an instruction breakpoint?
+        if (this.instructionBreakpoints.has(address)) {
+            this.sendEvent('stopOnInstructionBreakpoint');
+            return true;
+        }
+
+        // is there a source breakpoint? Free memory has no source line, so none can be set there
+        const breakpoints = this.sourceBreakpointsAt(address);
+        if (breakpoints.length > 0) {
+            // evaluate every breakpoint on the line so that all hit counts and logpoints are updated,
+            // running backwards must not change them
+            const bps = breakpoints.filter(bp => reverse ? this.shouldStopReverse(bp) : this.shouldStop(bp));
+            if (bps.length > 0) {
+
+                // send 'stopped' event
+                this.sendEvent('stopOnBreakpoint');
+
+                // the following shows the use of 'breakpoint' events to update properties of a breakpoint in the UI
+                // if breakpoint is not yet verified, verify it now and send a 'breakpoint' update event
+                if (!bps[0].verified) {
+                    bps[0].verified = true;
+                    this.sendEvent('breakpointValidated', bps[0]);
+                }
+                return true;
+            }
+        }
+
+        // is there a function breakpoint on a label?
+        if (this.functionBreakpoints.some(bp => bp.verified && bp.address === address)) {
+            this.sendEvent('stopOnFunctionBreakpoint');
+            return true;
+        }
+        return false;
+    }
+
+    /*
+     * The source breakpoints on the line of the given address, in every file that has a line for it.
+     */
+    private sourceBreakpointsAt(address: number): IRuntimeSourceBreakpoint[] {
+        const bps: IRuntimeSourceBreakpoint[] = [];
+        for (const [path, breakpoints] of this.breakPoints) {
+            const line = this.lineTable(path)?.[address];
+            if (line !== undefined) {
+                bps.push(...breakpoints.filter(bp => bp.line === line));
+            }
+        }
+        return bps;
+    }
+
+    /*
+     * Map the addresses of the program to the lines of the given file:
+     * the shown source file or the launched machine code behind it.
+     */
+    private lineTable(path: string): number[] | undefined {
+        if (path === this._sourceFile) {
+            return this.addressToLine;
+        }
+        if (path === this.machineCodeFile) {
+            return this.machineCodeLines;
+        }
+        return undefined;
+    }
+
+    /*
+     * A 'jalr' to the return address of an active subroutine returns from it (and from everything it called),
+     * any other 'jalr' calls the subroutine at the target address.
+     */
+    private updateCallStack(target: number, returnAddress: number) {
+
+        const index = this.callStack.map(f => f.returnAddress).lastIndexOf(target);
+        if (index < 0 && target === returnAddress) {
+            // 'jalr' with regA === regB just continues with the next instruction
+            return;
+        }
+
+        if (this.undoRecord) {
+            this.undoRecord.callStack = this.callStack.slice();
+        }
+        if (index >= 0) {
+            this.callStack = this.callStack.slice(0, index);
+        } else {
+            const name = this.statements[target]?.label?.text ?? `address ${target}`;
+            this.callStack.push({ name, returnAddress });
+        }
+    }
+
+    /*
+     * Running backwards only checks the condition of a breakpoint: hit counts are not changed,
+     * hit conditions are ignored and logpoints neither log nor stop.
+     */
+    private shouldStopReverse(bp: IRuntimeSourceBreakpoint): boolean {
+        if (bp.logMessage) {
+            return false;
+        }
+        try {
+            return !bp.condition || this.evaluate(bp.condition) !== 0;
+        } catch (e) {
+            // stop so that the broken condition can be fixed
+            return true;
+        }
+    }
+
+    /*
+     * Reverse execution reached the oldest recorded instruction.
+     */
+    private stopAtHistoryStart() {
+        if (this.historyTrimmed) {
+            this.sendEvent('output', 'err', 'Reached the beginning of the recorded history, older instructions cannot be undone', this._sourceFile, this.sourceLine(this.pc));
+            this.sendEvent('stopOnStep');
+        } else {
+            this.sendEvent('stopOnEntry');
+        }
+    }
+
+    /*
+     * Apply the condition, hit condition and log message of a breakpoint that is reached.
+     * Returns true if execution should stop; logpoints print their message instead of stopping.
+     */
+    private shouldStop(bp: IRuntimeSourceBreakpoint): boolean {
+        try {
+            if (bp.condition && this.evaluate(bp.condition) === 0) {
+                return false;
+            }
+            bp.hits++;
+            if (bp.hitCondition && !this.matchesHitCondition(bp.hitCondition, bp.hits)) {
+                return false;
+            }
+        } catch (e) {
+            // stop so that the broken condition can be fixed
+            this.sendEvent('output', 'err', `Error: breakpoint condition: ${e instanceof Error ? e.message : e}`, this._sourceFile, bp.line);
+            return true;
+        }
+        if (bp.logMessage) {
+            // interpolate expressions in curly braces, e.g. 'r3 is {reg 3}'
+            const text = bp.logMessage.replace(/\{([^}]*)\}/g, (_, expression) => {
+                try {
+                    return String(this.evaluate(expression));
+                } catch (e) {
+                    return `<${e instanceof Error ? e.message : e}>`;
+                }
+            });
+            this.sendEvent('output', 'console', text, this._sourceFile, bp.line);
+            return false;
+        }
+        return true;
+    }
+
+    /*
+     * Hit conditions are a number, optionally preceded by an operator: '>= 10', '== 5' or '% 3' (every 3rd hit).
+     * A plain number stops on that hit and every hit after it.
+     */
+    private matchesHitCondition(hitCondition: string, hits: number): boolean {
+        const match = /^\s*(==|=|!=|>=|>|<=|<|%)?\s*(\d+)\s*$/.exec(hitCondition);
+        if (!match) {
+            throw new Error(`invalid hit count '${hitCondition}'`);
+        }
+        const n = parseInt(match[2], 10);
+        switch (match[1]) {
+            case '==': case '=': return hits === n;
+            case '!=': return hits !== n;
+            case '>': return hits > n;
+            case '<': return hits < n;
+            case '<=': return hits <= n;
+            case '%': return n > 0 && hits % n === 0;
+            case '>=':
+            default: return hits >= n;
+        }
+    }
+
+    /*
+     * Map an address to the line of the shown source file.
+     * Addresses outside of the program have no line, they are only shown in the disassembly.
+     */
+    private sourceLine(address: number): number | undefined {
+        return this.addressToLine[address];
+    }
+
     private async loadSource(file: string): Promise<void> {
+        this.machineCodeFile = undefined;
         if (this._sourceFile !== file) {
             this._sourceFile = this.normalizePathAndCasing(file);
             this.initializeContents(await this.fileAccessor.readFile(file));
         }
     }
 
+    /*
+     * Load a machine-code program (one decimal word per line) into memory.
+     * If the matching '.as' file is next to it and assembles into the very same words,
+     * the debugger shows that file instead of the machine code.
+     */
+    private async loadMachineCode(file: string): Promise<void> {
+
+        const lines = new TextDecoder().decode(await this.fileAccessor.readFile(file)).split(/\r?\n/);
+
+        const words: number[] = [];
+        const addressToLine: number[] = [];
+        for (let l = 0; l < lines.length; l++) {
+            const text = lines[l].trim();
+            if (text.length === 0) {
+                continue;
+            }
+            if (!/^-?\d+$/.test(text)) {
+                // a truncated program must not run
+                throw new Error(`line ${l + 1}: '${text}' is not a machine-code word`);
+            }
+            words.push(parseInt(text, 10) | 0);
+            addressToLine.push(l);
+        }
+
+        this._sourceFile = file;
+        this.sourceLines = lines;
+        this.loadProgram(words, addressToLine);
+        this.machineCodeFile = file;
+        this.machineCodeLines = addressToLine;
+
+        // without assembly source, words that are no instruction or that are accessed by 'lw' or 'sw' count as data
+        for (let a = 0; a < words.length; a++) {
+            const instruction = decode(words[a]);
+            if (!instruction) {
+                this.dataAddresses.add(a);
+            } else if (instruction.opcode === 'lw' || instruction.opcode === 'sw') {
+                this.dataAddresses.add(instruction.offset);
+            }
+        }
+
+        const asFile = file.replace(/\.mc$/i, '.as');
+        let source: Uint8Array | undefined;
+        try {
+            source = await this.fileAccessor.readFile(asFile);
+        } catch (e) {
+            // no assembly source next to the machine code
+        }
+        if (source) {
+            const text = new TextDecoder().decode(source);
+            const assembly = assemble(text);
+            if (assembly.errors.length === 0 && assembly.words.length === words.length && assembly.words.every((w, i) => w === words[i])) {
+                this._sourceFile = this.normalizePathAndCasing(asFile);
+                this.sourceLines = text.split(/\r?\n/);
+                this.addressToLine = assembly.statements.map(s => s.line);
+                this.statements = assembly.statements;
+                this.labels = assembly.labels;
+                this.dataAddresses = this.findFillAddresses(assembly.statements);
+            } else {
+                this.sendEvent('output', 'console', `${asFile} does not match the machine code, debugging ${file} instead`, file, 0);
+            }
+        }
+    }
+
     private initializeContents(memory: Uint8Array) {
         this.sourceLines = new TextDecoder().decode(memory).split(/\r?\n/);
 
-        // allocate memory for mem
-        this.variables.set('mem', new RuntimeVariable('mem', new Array(this.sourceLines.length)));
-        // extract all the labels
-        for (let l = 0; l < this.sourceLines.length; l++) {
-            const line = this.sourceLines[l];
-            if (line[0] !== '\t') {
-                // it is a label
-                const SEP_REGEXP = /^([^\s]*)\s/g;
-                const match = SEP_REGEXP.exec(line);
-                if (match) {
-                    this.labels.push({ name: match[1], line: l, index: 0 });
-                }
-                // check if it is .fill
-                const FILL_REGEXP = /^([^\s]*)\s+(\.fill)\s+([^\s]+)(\s+)?(.*)?/g;
-                const fillMatch = FILL_REGEXP.exec(line);
-                if (fillMatch) {
-                    const label = this.labels.find(l => l.name === fillMatch[1])?.line;
-                    if (label === undefined) {
-                        this.sendEvent('output', 'err', `Error: label ${fillMatch[1]} not found`, this._sourceFile, l);
-                        this.sendEvent('stopOnException', `${RuntimeException.InvalidLabel} in line: ${this.currentLine}`);
-                        return;
-                    }
-                    let value = !isNaN(Number(fillMatch[3])) ? parseInt(fillMatch[3]) : fillMatch[3];
-                    if (typeof value === 'string') {
-                        let v = this.labels.find(l => l.name === fillMatch[3])?.line;
-                        if (v === undefined) {
-                            this.sendEvent('output', 'err', `Error: label ${fillMatch[3]} not found`, this._sourceFile, l);
-                            this.sendEvent('stopOnException', `${RuntimeException.InvalidLabel} in line: ${this.currentLine}`);
-                            return;
-                        } else {
-                            this.variables.get('mem')!.value[label] = v;
-                        }
-                    } else {
-                        this.variables.get('mem')!.value[label] = value;
-                    }
-                }
-            }
+        const assembly = assemble(this.sourceLines.join('\n'));
+        this.loadProgram(assembly.words, assembly.statements.map(s => s.line));
+        this.statements = assembly.statements;
+        this.labels = assembly.labels;
+        this.dataAddresses = this.findFillAddresses(assembly.statements);
+        this.assemblyErrors = assembly.errors;
+
+        // report every problem of the whole program before anything runs,
+        // the exception is raised once a broken instruction is executed
+        const errors = [...assembly.errors].sort((a, b) => a.line - b.line);
+        if (errors.length > 0) {
+            const count = errors.length === 1 ? '1 error' : `${errors.length} errors`;
+            this.sendEvent('output', 'err', `Error: the program has ${count}:`, this._sourceFile, errors[0].line);
         }
+        for (const error of errors) {
+            this.sendEvent('output', 'err', `  line ${error.line + 1}: ${error.message}`, this._sourceFile, error.line, error.column);
+        }
+    }
 
+    // the addresses of the '.fill' statements
+    private findFillAddresses(statements: IAsmStatement[]): Set<number> {
+        return new Set(statements.filter(s => s.opcode?.text === '.fill').map(s => s.address));
+    }
+
+    /*
+     * Put the program words into an otherwise zeroed memory, starting at address 0.
+     */
+    private loadProgram(words: number[], addressToLine: number[]) {
+        this.programWords = words;
+        this.addressToLine = addressToLine;
+        this.statements = [];
+        this.labels = new Map<string, IAsmLabel>();
+        this.dataAddresses = new Set<number>();
+        this.touchedAddresses = new Set<number>();
+        this.assemblyErrors = [];
+        this.changes.clear();
+
+        this.variables.set('mem', new RuntimeVariable('mem', new Array(MEMORY_SIZE).fill(0)));
+        words.forEach((w, i) => this.variables.get('mem')!.value[i] = w);
     }
 
 
     // execute R type instruction and update global variables
-    private executeRType(op: string, r1: number, r2: number, offset: number | string): boolean {
+    private executeRType(op: string, r1: number, r2: number, offset: number): boolean {
         switch (op) {
             case 'add':
-                // check if offset is a number
-                if (typeof offset === 'number') {
-                    if (offset > 7 || offset < 0) {
-                        this.sendEvent('output', 'err', `Error: register ${offset} is not valid`, this._sourceFile, this.currentLine);
-                        this.sendEvent('stopOnException', `${RuntimeException.InvalidRegister} in line${this.currentLine}\s`);
-                        return false;
-                    }
-                    // add r1 and r2 and store in r3, all the number are 32bit
-                    var result: number = Number(this.variables.get(`reg ${r1}`)?.value) + Number(this.variables.get(`reg ${r2}`)?.value);
-                    // if the result is over 32bit, truncate it
-                    result = result & 0xFFFFFFFF;
-                    const v = new RuntimeVariable(`reg ${offset}`, result);
-                    this.variables.set(`reg ${offset}`, v);
-                } else {
-                    this.sendEvent('output', 'err', `Error: should be a register for destReg`, this._sourceFile, this.currentLine);
-                    this.sendEvent('stopOnException', `${RuntimeException.InvalidRegister} in line: ${this.currentLine}\s`);
-                    return false;
-                }
+                // add r1 and r2 and store in destReg, all the number are 32bit
+                this.setRegister(offset, (this.readRegister(r1) + this.readRegister(r2)) | 0);
                 break;
             case 'nor':
-                // check if offset is a number
-                if (typeof offset === 'number') {
-                    if (offset > 7) {
-                        this.sendEvent('output', 'err', `Error: register ${offset} is not valid`, this._sourceFile, this.currentLine);
-                        this.sendEvent('stopOnException', `${RuntimeException.InvalidRegister} in line: ${this.currentLine}\s`);
-                        return false;
-                    }
-                    // nor r1 and r2 and store in r3, all the number are 32bit
-                    var result: number = ~(Number(this.variables.get(`reg ${r1}`)?.value) | Number(this.variables.get(`reg ${r2}`)?.value));
-                    // if the result is over 32bit, truncate it
-                    result = result & 0xFFFFFFFF;
-                    const v = new RuntimeVariable(`reg ${offset}`, result);
-                    this.variables.set(`reg ${offset}`, v);
-                }
-                else {
-                    this.sendEvent('output', 'err', `Error: should be a register for destReg`, this._sourceFile, this.currentLine);
-                    this.sendEvent('stopOnException', `${RuntimeException.InvalidRegister} in line: ${this.currentLine}\s`);
-                    return false;
-                }
+                // nor r1 and r2 and store in destReg, all the number are 32bit
+                this.setRegister(offset, ~(this.readRegister(r1) | this.readRegister(r2)));
                 break;
             case 'beq':
-                // check if offset is a number
-                if (typeof offset === 'number') {
-                    if (this.variables.get(`reg ${r1}`)?.value === this.variables.get(`reg ${r2}`)?.value) {
-                        this.currentLine = offset - 1;
-                    }
-                } else {
-                    // load the label
-                    var label = this.labels.find((label) => label.name === offset);
-                    if (label) {
-                        if (this.variables.get(`reg ${r1}`)?.value === this.variables.get(`reg ${r2}`)?.value) {
-                            this.currentLine = label.line - 1;
-                        }
-                    }
-                    else {
-                        this.sendEvent('output', 'err', `Error: label ${offset} not found`, this._sourceFile, this.currentLine);
-                        this.sendEvent('stopOnException', `${RuntimeException.InvalidRegister} in line: ${this.currentLine}\s`);
+                // the offset is relative to the next instruction (PC + 1 + offset)
+                if (this.readRegister(r1) === this.readRegister(r2)) {
+                    if (!this.checkAddress(this.pc + offset, 'branch target')) {
                         return false;
                     }
+                    this.pc += offset;
                 }
                 break;
             case 'lw':
-                var num_offset;
-                // check if offset is a number
-                if (typeof offset === 'string') {
-                    // load the label
-                    var label = this.labels.find((label) => label.name === offset);
-                    if (label) {
-                        num_offset = label.line;
-                    }
-                    else {
-                        this.sendEvent('output', 'err', `Error: label ${offset} not found`, this._sourceFile, this.currentLine);
-                        this.sendEvent('stopOnException', `${RuntimeException.InvalidLabel} in line: ${this.currentLine}\s`);
-                        return false;
-                    }
-                } else {
-                    num_offset = offset;
-                }
-                var address = this.variables.get(`reg ${r1}`)?.value + num_offset;
-                var value = this.variables.get('mem')?.value[address];
-                if (value === undefined) {
-                    this.sendEvent('output', 'err', `Error: address ${address} may not be initialized or out of bound`, this._sourceFile, this.currentLine);
-                    this.sendEvent('stopOnException', `${RuntimeException.InvalidMemory} in line: ${this.currentLine}\s`);
+                var address = this.readRegister(r1) + offset;
+                if (!this.checkAddress(address, 'address')) {
                     return false;
                 }
-                const v = new RuntimeVariable(`reg ${r2}`, value);
-                this.variables.set(`reg ${r2}`, v);
+                this.setRegister(r2, this.readMemory(address));
                 break;
             case 'sw':
-                var num_offset;
-                // check if offset is a number
-                if (typeof offset === 'string') {
-                    // load the label
-                    var label = this.labels.find((label) => label.name === offset);
-                    if (label) {
-                        num_offset = label.line;
-                    }
-                    else {
-                        this.sendEvent('output', 'err', `Error: label ${offset} not found`, this._sourceFile, this.currentLine);
-                        this.sendEvent('stopOnException', `${RuntimeException.InvalidLabel} in line: ${this.currentLine}\s`);
-                        return false;
-                    }
-                } else {
-                    num_offset = offset;
+                address = this.readRegister(r1) + offset;
+                if (!this.checkAddress(address, 'address')) {
+                    return false;
                 }
-                address = this.variables.get(`reg ${r1}`)?.value + num_offset;
-                value = Number(this.variables.get(`reg ${r2}`)?.value);
-
-                this.variables.get('mem')!.value[address] = value;
+                this.setMemory(address, this.readRegister(r2));
                 break;
             default:
-                this.sendEvent('output', 'err', `Error: unknown operation ${op}`, this._sourceFile, this.currentLine);
-                this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${this.currentLine}\s`);
+                this.sendEvent('output', 'err', `Error: unknown operation ${op}`, this._sourceFile, this.sourceLine(this.pc - 1));
+                this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${this.getInstruction(this.pc - 1)}`);
                 return false;
         }
         return true;
@@ -525,13 +1296,17 @@ export class MockRuntime extends EventEmitter {
     private executeJType(op: string, r1: number, r2: number): boolean {
         switch (op) {
             case 'jalr':
-                const v = new RuntimeVariable(`reg ${r2}`, this.currentLine + 1);
-                this.variables.set(`reg ${r2}`, v);
-                this.currentLine = Number(this.variables.get(`reg ${r1}`)?.value) - 1;
+                this.setRegister(r2, this.pc);
+                const target = this.readRegister(r1);
+                if (!this.checkAddress(target, 'jump target')) {
+                    return false;
+                }
+                this.updateCallStack(target, this.pc);
+                this.pc = target;
                 break;
             default:
-                this.sendEvent('output', 'err', `Error: unknown op ${op}`, this._sourceFile, this.currentLine);
-                this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${this.currentLine}\s`);
+                this.sendEvent('output', 'err', `Error: unknown op ${op}`, this._sourceFile, this.sourceLine(this.pc - 1));
+                this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${this.getInstruction(this.pc - 1)}`);
                 return false;
         }
         return true;
@@ -550,112 +1325,115 @@ export class MockRuntime extends EventEmitter {
             case 'noop':
                 break;
             default:
-                this.sendEvent('output', 'err', `Error: unknown op ${op}`, this._sourceFile, this.currentLine);
-                this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${this.currentLine}`);
+                this.sendEvent('output', 'err', `Error: unknown op ${op}`, this._sourceFile, this.sourceLine(this.pc - 1));
+                this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${this.getInstruction(this.pc - 1)}`);
                 return false;
         }
         return true;
     }
+
+    /*
+     * Returns true if the address lies within the LC2K memory, otherwise stops with an exception.
+     */
+    private checkAddress(address: number, what: string): boolean {
+        if (address >= 0 && address < MEMORY_SIZE) {
+            return true;
+        }
+        this.sendEvent('output', 'err', `Error: ${what} ${address} is outside of the memory (0 to ${MEMORY_SIZE - 1})`, this._sourceFile, this.sourceLine(this.pc - 1));
+        this.sendEvent('stopOnException', `${RuntimeException.InvalidMemory} in line: ${this.getInstruction(this.pc - 1)}`);
+        return false;
+    }
+
     /**
+     * Check the instruction at the program counter for breakpoints.
      * return true on stop
      */
-    private findNextStatement(stepEvent?: string): boolean {
-
-        for (let ln = this.currentLine; ln < this.sourceLines.length; ln++) {
-
-            // is there a source breakpoint?
-            const breakpoints = this.breakPoints.get(this._sourceFile);
-            if (breakpoints) {
-                const bps = breakpoints.filter(bp => bp.line === ln);
-                if (bps.length > 0) {
-
-                    // send 'stopped' event
-                    this.sendEvent('stopOnBreakpoint');
-
-                    // the following shows the use of 'breakpoint' events to update properties of a breakpoint in the UI
-                    // if breakpoint is not yet verified, verify it now and send a 'breakpoint' update event
-                    if (!bps[0].verified) {
-                        bps[0].verified = true;
-                        this.sendEvent('breakpointValidated', bps[0]);
-                    }
-
-                    this.currentLine = ln;
-                    return true;
-                }
-            }
+    private findNextStatement(stepEvent?: string, ...args: any[]): boolean {
 
-            const line = this.getLine(ln);
-            if (line.length > 0) {
-                this.currentLine = ln;
-                break;
-            }
+        if (this.hasBreakpoint(this.pc)) {
+            return true;
         }
         if (stepEvent) {
-            this.sendEvent(stepEvent);
+            this.sendEvent(stepEvent, ...args);
             return true;
         }
         return false;
     }
 
     /**
-     * "execute a line" of the readme markdown.
+     * Execute the instruction at the given address and advance the program counter.
      * Returns true if execution sent out a stopped event and needs to stop.
      */
-    private executeLine(ln: number): boolean {
+    private executeLine(address: number): boolean {
+
+        // a limit of 0 or less turns the check off
+        if (this.maxInstructions > 0 && this.instructionCount >= this.maxInstructions) {
+            // start counting again so that the user can deliberately run on
+            this.instructionCount = 0;
+            this.sendEvent('output', 'err', `Error: the program executed ${this.maxInstructions} instructions without halting, it is probably stuck in an infinite loop`, this._sourceFile, this.sourceLine(address));
+            this.sendEvent('stopOnException', `${RuntimeException.InstructionLimit} in line: ${this.getInstruction(address)}`);
+            return true;
+        }
 
-        const line = this.getLine(ln);
+        // instructions are fetched from memory, so that a 'sw' into the code changes what runs
+        const word: number = this.variables.get('mem')!.value[address];
 
-        // use regex to parse lc2k assembly (e.g. label lw 0 3 label1 )
-        var op: string | undefined = undefined;
-        var reg1: number | undefined = undefined;
-        var reg2: number | undefined = undefined;
-        var offset: number | string;
-        const R_INST_REGEX = /^([^\s]*)\s+(add|nor|lw|sw|beq)\s+([^\s]*)\s+([^\s]*)\s+([^\s]*)(\s+)?(.*)?/g;
-        const J_INST_REGEX = /^([^\s]*)\s+(jalr)\s+([^\s]+)\s+([^\s]+)(\s+)?(.*)?/g;
-        const O_INST_REGEX = /^([^\s]*)\s+(halt|noop)(\s+)?(.*)?/g;
-        const FILL_REGEX = /^([^\s]*)\s+(\.fill)\s+([^\s]+)(\s+)?(.*)?/g;
-        let match: RegExpExecArray | null;
-        if (match = R_INST_REGEX.exec(line)) {
-            // R-type instruction
-            op = match[2];
-            reg1 = parseInt(match[3]);
-            reg2 = parseInt(match[4]);
-            if (reg1 < 0 || reg1 > 7 || reg2 < 0 || reg2 > 7) {
-                this.sendEvent('output', 'err', `Error: invalid register ${reg1} or ${reg2}`, this._sourceFile, ln);
-                this.sendEvent('stopOnException', `${RuntimeException.InvalidRegister} in line: ${line.trim()}`);
-                return true;
-            }
-            offset = !isNaN(Number(match[5])) ? parseInt(match[5]) : match[5];
-            if (!this.executeRType(op, reg1, reg2, offset)) {
-                return true;
-            }
-        } else if (match = J_INST_REGEX.exec(line)) {
-            // J-type instruction
-            op = match[2];
-            reg1 = parseInt(match[3]);
-            reg2 = parseInt(match[4]);
-            if (reg1 < 0 || reg1 > 7 || reg2 < 0 || reg2 > 7) {
-                this.sendEvent('output', 'err', `Error: invalid register ${reg1} or ${reg2}`, this._sourceFile, ln);
-                this.sendEvent('stopOnException', `${RuntimeException.InvalidRegister} in line: ${line.trim()}`);
-                return true;
-            }
-            if (!this.executeJType(op, reg1, reg2)) {
-                return true;
-            }
-        } else if (match = O_INST_REGEX.exec(line)) {
-            // O-type instruction
-            op = match[2];
-            if (!this.executeOType(op)) {
-                return true;
-            }
-        } else if (match = FILL_REGEX.exec(line)) {
-            // .fill instruction
-            op = match[2];
-            offset = match[3];
-        } else {
-            // invalid instruction
-            this.sendEvent('output', 'err', `Error: invalid instruction ${line}`, this._sourceFile, ln);
-            this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${line.trim()}`);
+        // an instruction that did not assemble raises an exception once it is executed (unless it was overwritten)
+        const statement = this.statements[address];
+        const error = statement && this.assemblyErrors.find(e => e.line === statement.line);
+        if (error && word === this.programWords[address]) {
+            this.sendEvent('output', 'err', `Error: ${error.message}`, this._sourceFile, this.sourceLine(address));
+            this.sendEvent('stopOnException', `${ERROR_EXCEPTIONS[error.kind]} in line: ${this.getInstruction(address)}`, error.kind);
+            return true;
+        }
+
+        const instruction = decode(word);
+        if (!instruction) {
+            this.sendEvent('output', 'err', `Error: ${word} at address ${address} is not a valid instruction`, this._sourceFile, this.sourceLine(address));
+            this.sendEvent('stopOnException', `${RuntimeException.InvalidInstruction} in line: ${this.getInstruction(address)}`);
+            return true;
+        }
+
+        this.undoRecord = { address, registers: [], memory: [], reads: [] };
+        this.pc = address + 1;
+
+        const { opcode, regA, regB, offset } = instruction;
+        let ok: boolean;
+        switch (opcode) {
+            case 'jalr':
+                ok = this.executeJType(opcode, regA, regB);
+                break;
+            case 'halt':
+            case 'noop':
+                ok = this.executeOType(opcode);
+                break;
+            default:
+                ok = this.executeRType(opcode, regA, regB, offset);
+                break;
+        }
+
+        // remember how to undo the instruction
+        const record = this.undoRecord;
+        this.history.push(record);
+        this.undoRecord = undefined;
+        if (!ok) {
+            // revert what the failed instruction already changed and stay on it
+            this.undoLine();
+            return true;
+        }
+
+        this.instructionCount++;
+        if (this.history.length > MAX_HISTORY) {
+            this.history.splice(0, MAX_HISTORY / 10);
+            this.historyTrimmed = true;
+        }
+
+        // stop after the write is done, so that continuing runs the modified code
+        const codeWrite = this.breakOnCodeWrite ? record.memory.find(([a]) => this.isCodeAddress(a)) : undefined;
+        if (codeWrite) {
+            const text = this.getInstruction(address);
+            this.sendEvent('output', 'err', `Error: '${text}' overwrote the instruction at address ${codeWrite[0]}`, this._sourceFile, this.sourceLine(address));
+            this.sendEvent('stopOnException', `${RuntimeException.CodeWrite} in line: ${text}`);
             return true;
         }
 
@@ -663,25 +1441,39 @@ export class MockRuntime extends EventEmitter {
         return false;
     }
 
+    private verifyFunctionBreakpoints() {
+        for (const bp of this.functionBreakpoints) {
+            if (!bp.verified) {
+                this.resolveFunctionBreakpoint(bp);
+                this.sendEvent('breakpointValidated', bp);
+            }
+        }
+    }
+
+    private resolveFunctionBreakpoint(bp: IRuntimeFunctionBreakpoint) {
+        bp.address = this.getLabelAddress(bp.name);
+        if (bp.address === undefined) {
+            bp.message = `label '${bp.name}' is not defined`;
+        } else {
+            bp.verified = true;
+            // a label always labels a statement of the program
+            bp.line = this.sourceLine(bp.address)!;
+            bp.message = undefined;
+        }
+    }
+
     private async verifyBreakpoints(path: string): Promise<void> {
 
         const bps = this.breakPoints.get(path);
-        if (bps) {
+        // breakpoints in other files than the program stay unverified
+        const lines = this.lineTable(path);
+        if (bps && lines) {
             bps.forEach(bp => {
-                if (!bp.verified && bp.line < this.sourceLines.length) {
-                    const srcLine = this.getLine(bp.line);
-
-                    // if a line is empty or starts with '+' we don't allow to set a breakpoint but move the breakpoint down
-                    if (srcLine.length === 0 || srcLine.indexOf('+') === 0) {
-                        bp.line++;
-                    }
-                    // if a line starts with '-' we don't allow to set a breakpoint but move the breakpoint up
-                    if (srcLine.indexOf('-') === 0) {
-                        bp.line--;
-                    }
-                    // don't set 'verified' to true if the line contains the word 'lazy'
-                    // in this case the breakpoint will be verified 'lazy' after hitting it once.
-                    if (srcLine.indexOf('lazy') < 0) {
+                if (!bp.verified) {
+                    // a breakpoint on a line without an instruction (e.g. a comment) moves down to the next instruction
+                    const line = lines.find(l => l >= bp.line);
+                    if (line !== undefined) {
+                        bp.line = line;
                         bp.verified = true;
                         this.sendEvent('breakpointValidated', bp);
                     }
@@ -25,6 +25,29 @@ suite('Node Debug Adapter', () => {
 
 	teardown( () => dc.stop() );
 
+	const THREAD_ID = 1;
+
+	// launch the program and wait until it stops on its first instruction
+	function launchStoppedOnEntry(program: string, args: object = {}) {
+		return Promise.all([
+			dc.configurationSequence(),
+			dc.launch({ program, stopOnEntry: true, ...args }),
+			dc.assertStoppedLocation('entry', { line: 1 } )
+		]);
+	}
+
+	// send a request that runs the program and check where it stops
+	function assertStop(request: Promise<DebugProtocol.Response>, reason: string, line: number) {
+		return Promise.all([
+			request,
+			dc.assertStoppedLocation(reason, { line: line } )
+		]);
+	}
+
+	function evaluate(expression: string, context = 'watch') {
+		return dc.evaluateRequest({ expression, context }).then(response => response.body.result);
+	}
+
 
 	suite('basic', () => {
 
@@ -65,7 +88,7 @@ suite('Node Debug Adapter', () => {
 
 		test('should run program to the end', () => {
 
-			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+			const PROGRAM = Path.join(DATA_ROOT, 'test.as');
 
 			return Promise.all([
 				dc.configurationSequence(),
@@ -76,7 +99,7 @@ suite('Node Debug Adapter', () => {
 
 		test('should stop on entry', () => {
 
-			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+			const PROGRAM = Path.join(DATA_ROOT, 'test.as');
 			const ENTRY_LINE = 1;
 
 			return Promise.all([
@@ -91,24 +114,28 @@ suite('Node Debug Adapter', () => {
 
 		test('should stop on a breakpoint', () => {
 
-			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+			const PROGRAM = Path.join(DATA_ROOT, 'test.as');
 			const BREAKPOINT_LINE = 2;
 
-			return dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: BREAKPOINT_LINE } );
+			// breakpoints are verified once the program is loaded
+			return dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: BREAKPOINT_LINE, verified: false } );
 		});
 
 		test('hitting a lazy breakpoint should send a breakpoint event', () => {
 
-			const PROGRAM = Path.join(DATA_ROOT, 'testLazyBreakpoint.md');
+			const PROGRAM = Path.join(DATA_ROOT, 'testLazyBreakpoint.as');
 			const BREAKPOINT_LINE = 3;
+			// the breakpoint on the comment moves down to the next instruction
+			const INSTRUCTION_LINE = 4;
 
 			return Promise.all([
 
-				dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: BREAKPOINT_LINE, verified: false } ),
+				dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: BREAKPOINT_LINE, verified: false }, { line: INSTRUCTION_LINE } ),
 
 				dc.waitForEvent('breakpoint').then(event => {
 					const bpevent = event as DebugProtocol.BreakpointEvent;
 					assert.strictEqual(bpevent.body.breakpoint.verified, true, "event mismatch: verified");
+					assert.strictEqual(bpevent.body.breakpoint.line, INSTRUCTION_LINE, "event mismatch: line");
 				})
 			]);
 		});
@@ -118,14 +145,15 @@ suite('Node Debug Adapter', () => {
 
 		test('should stop on an exception', () => {
 
-			const PROGRAM_WITH_EXCEPTION = Path.join(DATA_ROOT, 'testWithException.md');
-			const EXCEPTION_LINE = 4;
+			const PROGRAM_WITH_EXCEPTION = Path.join(DATA_ROOT, 'testWithException.as');
+			// the 'sw' in line 4 overwrites an instruction and stops once the write is done
+			const EXCEPTION_LINE = 5;
 
 			return Promise.all([
 
 				dc.waitForEvent('initialized').then(event => {
 					return dc.setExceptionBreakpointsRequest({
-						filters: [ 'otherExceptions' ]
+						filters: [ 'codeWrite' ]
 					});
 				}).then(response => {
 					return dc.configurationDoneRequest();
@@ -137,4 +165,894 @@ suite('Node Debug Adapter', () => {
 			]);
 		});
 	});
-});
\ No newline at end of file
+
+	suite('reverse debugging', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		test('should undo the last instruction', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 3);
+			assert.strictEqual(await evaluate('r2'), '-1');
+
+			await assertStop(dc.stepBackRequest({ threadId: THREAD_ID }), 'step', 2);
+			assert.strictEqual(await evaluate('r2'), '0');
+			assert.strictEqual(await evaluate('r1'), '5');
+		});
+
+		test('should stop on entry when stepping back at the first instruction', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.stepBackRequest({ threadId: THREAD_ID }), 'entry', 1);
+		});
+
+		test('should reverse continue to the previous breakpoint', async () => {
+
+			const BREAKPOINT_LINE = 3;
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: BREAKPOINT_LINE } ] });
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', BREAKPOINT_LINE);
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', BREAKPOINT_LINE);
+			assert.strictEqual(await evaluate('r1'), '4');
+
+			await assertStop(dc.reverseContinueRequest({ threadId: THREAD_ID }), 'breakpoint', BREAKPOINT_LINE);
+			assert.strictEqual(await evaluate('r1'), '5');
+			await assertStop(dc.reverseContinueRequest({ threadId: THREAD_ID }), 'entry', 1);
+		});
+
+		test('should not log when reverse continuing over a logpoint', async () => {
+
+			const BREAKPOINT_LINE = 3;
+			const LOGPOINT_LINE = 4;
+
+			const logs: string[] = [];
+			dc.on('output', event => {
+				if (event.body.category === 'console') {
+					logs.push(event.body.output);
+				}
+			});
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: BREAKPOINT_LINE }, { line: LOGPOINT_LINE, logMessage: 'r1 is {r1}' } ] });
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', BREAKPOINT_LINE);
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', BREAKPOINT_LINE);
+			assert.deepStrictEqual(logs, [ 'r1 is 4\n' ]);
+
+			await assertStop(dc.reverseContinueRequest({ threadId: THREAD_ID }), 'breakpoint', BREAKPOINT_LINE);
+			assert.deepStrictEqual(logs, [ 'r1 is 4\n' ]);
+		});
+	});
+
+	suite('call stack', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'testSubroutine.as');
+		const CALL_LINE = 3;
+		const RETURN_LINE = 4;
+		const SUBROUTINE_LINE = 5;
+		const SUBROUTINE_RETURN_LINE = 17;
+
+		test('should show a frame for a subroutine called by jalr', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', CALL_LINE);
+			await assertStop(dc.stepInRequest({ threadId: THREAD_ID }), 'step', SUBROUTINE_LINE);
+
+			const response = await dc.stackTraceRequest({ threadId: THREAD_ID });
+			const frames = response.body.stackFrames;
+			assert.strictEqual(response.body.totalFrames, 2);
+			assert.ok(frames[0].name.startsWith('sub4n: lw 0 6 pos1'), frames[0].name);
+			assert.ok(frames[1].name.startsWith('main: halt'), frames[1].name);
+			assert.strictEqual(frames[1].line, RETURN_LINE);
+		});
+
+		test('should drop the frame when the subroutine returns', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: SUBROUTINE_RETURN_LINE } ] });
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', SUBROUTINE_RETURN_LINE);
+			assert.strictEqual((await dc.stackTraceRequest({ threadId: THREAD_ID })).body.totalFrames, 2);
+
+			await assertStop(dc.stepInRequest({ threadId: THREAD_ID }), 'step', RETURN_LINE);
+			assert.strictEqual((await dc.stackTraceRequest({ threadId: THREAD_ID })).body.totalFrames, 1);
+
+			// stepping back returns into the subroutine
+			await assertStop(dc.stepBackRequest({ threadId: THREAD_ID }), 'step', SUBROUTINE_RETURN_LINE);
+			assert.strictEqual((await dc.stackTraceRequest({ threadId: THREAD_ID })).body.totalFrames, 2);
+		});
+	});
+
+	suite('step over and step out', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'testSubroutine.as');
+		const CALL_LINE = 3;
+		const RETURN_LINE = 4;
+		const SUBROUTINE_LINE = 5;
+
+		test('should step over a subroutine call', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', CALL_LINE);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', RETURN_LINE);
+			assert.strictEqual(await evaluate('r3'), '40');
+		});
+
+		test('should stop on a breakpoint inside a stepped over subroutine', async () => {
+
+			const BREAKPOINT_LINE = 10;
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: BREAKPOINT_LINE } ] });
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', CALL_LINE);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'breakpoint', BREAKPOINT_LINE);
+		});
+
+		test('should step out of a subroutine', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: SUBROUTINE_LINE } ] });
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', SUBROUTINE_LINE);
+			await assertStop(dc.stepOutRequest({ threadId: THREAD_ID }), 'step', RETURN_LINE);
+			assert.strictEqual(await evaluate('r3'), '40');
+		});
+	});
+
+	suite('data breakpoints', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		test('should describe registers, memory words and labels', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const [ registers, mems ] = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+
+			const register = await dc.dataBreakpointInfoRequest({ name: 'reg 1', variablesReference: registers.variablesReference });
+			assert.strictEqual(register.body.dataId, 'reg 1');
+
+			const word = await dc.dataBreakpointInfoRequest({ name: 'mem[7] five', variablesReference: mems.variablesReference });
+			assert.strictEqual(word.body.dataId, 'mem[7]');
+
+			// a '.fill' label in the editor or the watch view
+			const label = await dc.dataBreakpointInfoRequest({ name: 'five' });
+			assert.strictEqual(label.body.dataId, 'mem[7]');
+
+			const instruction = await dc.dataBreakpointInfoRequest({ name: 'start' });
+			assert.strictEqual(instruction.body.dataId, null);
+		});
+
+		test('should stop after a register is written', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.setDataBreakpointsRequest({ breakpoints: [ { dataId: 'reg 1', accessType: 'write' } ] });
+			assert.strictEqual(response.body.breakpoints[0].verified, true);
+
+			const [, event] = await Promise.all([
+				dc.continueRequest({ threadId: THREAD_ID }),
+				dc.waitForEvent('stopped')
+			]);
+			assert.strictEqual(event.body.reason, 'data breakpoint');
+			assert.strictEqual(event.body.text, 'reg 1 changed from 0 to 5');
+		});
+
+		test('should stop after a memory word is read', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setDataBreakpointsRequest({ breakpoints: [ { dataId: 'mem[7]', accessType: 'read' } ] });
+
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'data breakpoint', 2);
+		});
+
+		test('should not accept an unknown data id', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.setDataBreakpointsRequest({ breakpoints: [ { dataId: 'reg 8' } ] });
+			assert.strictEqual(response.body.breakpoints[0].verified, false);
+		});
+	});
+
+	suite('function and instruction breakpoints', () => {
+
+		test('should stop on a function breakpoint on a label', async () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testSubroutine.as');
+			const SUBROUTINE_LINE = 5;
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.setFunctionBreakpointsRequest({ breakpoints: [ { name: 'sub4n' }, { name: 'nowhere' } ] });
+			const [ label, unknown ] = response.body.breakpoints;
+			assert.strictEqual(label.verified, true);
+			assert.strictEqual(label.line, SUBROUTINE_LINE);
+			assert.strictEqual(unknown.verified, false);
+			assert.strictEqual(unknown.message, "label 'nowhere' is not defined");
+
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'function breakpoint', SUBROUTINE_LINE);
+		});
+
+		test('should stop on an instruction breakpoint at a byte address', async () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+			await launchStoppedOnEntry(PROGRAM);
+			// every word takes 4 bytes, so address 2 is line 3
+			const response = await dc.send('setInstructionBreakpoints', { breakpoints: [ { instructionReference: '0x00000004', offset: 4 }, { instructionReference: '0x00040000' } ] }) as DebugProtocol.SetInstructionBreakpointsResponse;
+			const [ instruction, outside ] = response.body.breakpoints;
+			assert.strictEqual(instruction.verified, true);
+			assert.strictEqual(instruction.instructionReference, '0x00000008');
+			assert.strictEqual(outside.verified, false);
+
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'instruction breakpoint', 3);
+		});
+	});
+
+	suite('conditional breakpoints and logpoints', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+		const LOOP_LINE = 3;
+
+		test('should stop when the condition is met', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: LOOP_LINE, condition: 'r1 == 2' } ] });
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', LOOP_LINE);
+			assert.strictEqual(await evaluate('r1'), '2');
+		});
+
+		test('should stop from the given hit count on', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: LOOP_LINE, hitCondition: '3' } ] });
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', LOOP_LINE);
+			assert.strictEqual(await evaluate('r1'), '3');
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', LOOP_LINE);
+			assert.strictEqual(await evaluate('r1'), '2');
+		});
+
+		test('should stop on a condition that cannot be evaluated', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: LOOP_LINE, condition: 'r1 ==' } ] });
+			await Promise.all([
+				dc.continueRequest({ threadId: THREAD_ID }),
+				dc.assertOutput('stderr', 'Error: breakpoint condition: '),
+				dc.assertStoppedLocation('breakpoint', { line: LOOP_LINE } )
+			]);
+		});
+
+		test('should log instead of stopping on a logpoint', () => {
+
+			return Promise.all([
+				dc.waitForEvent('initialized').then(event => {
+					return dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: 4, logMessage: 'r1 is {r1}' } ] });
+				}).then(response => {
+					return dc.configurationDoneRequest();
+				}),
+				dc.launch({ program: PROGRAM }),
+				dc.assertOutput('console', 'r1 is 4\nr1 is 3\nr1 is 2\nr1 is 1\nr1 is 0\n'),
+				dc.waitForEvent('terminated')
+			]);
+		});
+	});
+
+	suite('pause and instruction limit', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'testInfiniteLoop.as');
+
+		test('should pause a program that never halts', async () => {
+
+			await launchStoppedOnEntry(PROGRAM, { maxInstructions: 0 });
+			await dc.continueRequest({ threadId: THREAD_ID });
+			await assertStop(dc.pauseRequest({ threadId: THREAD_ID }), 'pause', 1);
+		});
+
+		test('should end a running program when the session is disconnected', async () => {
+
+			await launchStoppedOnEntry(PROGRAM, { maxInstructions: 0 });
+			await dc.continueRequest({ threadId: THREAD_ID });
+			await dc.disconnectRequest({});
+
+			// nothing runs anymore that could be paused
+			await dc.pauseRequest({ threadId: THREAD_ID });
+			await assert.rejects(dc.waitForEvent('stopped', 500));
+		});
+
+		test('should stop with an exception after maxInstructions instructions', async () => {
+
+			await launchStoppedOnEntry(PROGRAM, { maxInstructions: 1000 });
+			await Promise.all([
+				dc.continueRequest({ threadId: THREAD_ID }),
+				dc.assertOutput('stderr', 'Error: the program executed 1000 instructions without halting'),
+				dc.assertStoppedLocation('exception', { line: 1 } )
+			]);
+
+			const response = await dc.exceptionInfoRequest({ threadId: THREAD_ID });
+			assert.ok(response.body.description?.startsWith('Instruction limit exceeded'), response.body.description);
+		});
+	});
+
+	suite('memory model', () => {
+
+		test('should run instructions stored outside of the program', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testFarJump.as');
+
+			return Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM }),
+				// the halt copied to address 100 ends the program with the jalr return address in reg 3
+				dc.assertOutput('stdout', 'reg 0: 0\nreg 1: 25165824\nreg 2: 100\nreg 3: 4\n'),
+				dc.waitForEvent('terminated')
+			]);
+		});
+
+		test('should not stop on a breakpoint at the last line outside of the program', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testFarJump.as');
+			const FILL_LINE = 6;
+
+			return Promise.all([
+				dc.waitForEvent('initialized').then(event => {
+					return dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [ { line: FILL_LINE } ] });
+				}).then(response => {
+					return dc.configurationDoneRequest();
+				}),
+				dc.launch({ program: PROGRAM }),
+				dc.waitForEvent('terminated')
+			]);
+		});
+
+		test('should show a frame outside of the program without a source', async () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testFarJump.as');
+
+			await launchStoppedOnEntry(PROGRAM);
+			// the halt copied to address 100
+			await dc.send('setInstructionBreakpoints', { breakpoints: [ { instructionReference: '0x00000190' } ] });
+			const [ , response ] = await Promise.all([
+				dc.continueRequest({ threadId: THREAD_ID }),
+				dc.assertStoppedLocation('instruction breakpoint', {} )
+			]);
+			const frame = response.body.stackFrames[0];
+			assert.strictEqual(frame.source, undefined);
+			assert.strictEqual(frame.line, 0);
+			assert.strictEqual(frame.instructionPointerReference, '0x00000190');
+		});
+
+		test('should end when the program counter leaves the memory', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testNoHalt.as');
+
+			return Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM }),
+				dc.assertOutput('stderr', 'Error: the program counter 65536 left the memory (0 to 65535)\n'),
+				dc.waitForEvent('terminated')
+			]);
+		});
+
+		test('should stop on the instruction that accesses an address outside of the memory', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testBadAddress.as');
+
+			return Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM }),
+				dc.assertOutput('stderr', 'Error: address -1 is outside of the memory (0 to 65535)\n'),
+				dc.assertStoppedLocation('exception', { line: 2 } )
+			]);
+		});
+	});
+
+	suite('self-modifying code', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'testSelfModifying.as');
+		const PATCH_LINE = 3;
+
+		test('should run an instruction written by sw', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', PATCH_LINE);
+
+			// the frame shows the instruction in memory instead of the source
+			const response = await dc.stackTraceRequest({ threadId: THREAD_ID });
+			assert.ok(response.body.stackFrames[0].name.startsWith('main: lw 0 2 4'), response.body.stackFrames[0].name);
+
+			await Promise.all([
+				dc.continueRequest({ threadId: THREAD_ID }),
+				dc.assertOutput('stdout', 'reg 0: 0\nreg 1: 8519684\nreg 2: 8519684\n'),
+				dc.waitForEvent('terminated')
+			]);
+		});
+
+		test('should stop on a write into the code with the codeWrite filter', async () => {
+
+			await Promise.all([
+				dc.waitForEvent('initialized').then(event => {
+					return dc.setExceptionBreakpointsRequest({ filters: [ 'codeWrite' ] });
+				}).then(response => {
+					return dc.configurationDoneRequest();
+				}),
+				dc.launch({ program: PROGRAM }),
+				dc.assertStoppedLocation('exception', { line: PATCH_LINE } )
+			]);
+
+			const response = await dc.exceptionInfoRequest({ threadId: THREAD_ID });
+			assert.ok(response.body.description?.startsWith('Write to program code'), response.body.description);
+		});
+	});
+
+	suite('memory', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+		// 'five' labels address 7, the memory reference is the byte address 7 * 4
+		const FIVE = '0x0000001c';
+
+		test('should give a .fill label a memory reference', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.evaluateRequest({ expression: 'five', context: 'watch' });
+			assert.strictEqual(response.body.result, '7');
+			assert.strictEqual(response.body.memoryReference, FIVE);
+		});
+
+		test('should read words as little-endian bytes', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.send('readMemory', { memoryReference: FIVE, count: 8 }) as DebugProtocol.ReadMemoryResponse;
+			assert.strictEqual(response.body?.address, FIVE);
+			assert.deepStrictEqual([...Buffer.from(response.body?.data ?? '', 'base64')], [ 5, 0, 0, 0, 255, 255, 255, 255 ]);
+		});
+
+		test('should report the bytes beyond the memory as unreadable', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.send('readMemory', { memoryReference: '0x0003fffc', count: 8 }) as DebugProtocol.ReadMemoryResponse;
+			assert.strictEqual(response.body?.unreadableBytes, 4);
+		});
+
+		test('should write bytes into a word', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.send('writeMemory', { memoryReference: FIVE, data: Buffer.from([ 7, 1 ]).toString('base64') }) as DebugProtocol.WriteMemoryResponse;
+			assert.strictEqual(response.body?.bytesWritten, 2);
+			assert.strictEqual(await evaluate('mem[five]'), '263');
+		});
+
+		test('should use byte addresses for the stack and the disassembly', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			const frame = (await dc.stackTraceRequest({ threadId: THREAD_ID })).body.stackFrames[0];
+			assert.strictEqual(frame.instructionPointerReference, '0x00000004');
+
+			// there is nothing before address 0, such instructions have the address -1
+			const response = await dc.send('disassemble', { memoryReference: frame.instructionPointerReference, instructionOffset: -2, instructionCount: 4 }) as DebugProtocol.DisassembleResponse;
+			assert.deepStrictEqual(response.body?.instructions.map(i => [ i.address, i.instruction ]), [
+				[ '-1', '??' ],
+				[ '0x00000000', 'lw 0 1 7' ],
+				[ '0x00000004', 'lw 1 2 3' ],
+				[ '0x00000008', 'add 1 2 1' ]
+			]);
+
+			// the byte offset moves the start, here to address 2
+			const moved = await dc.send('disassemble', { memoryReference: '0x00000000', offset: 8, instructionCount: 1 }) as DebugProtocol.DisassembleResponse;
+			assert.deepStrictEqual(moved.body?.instructions.map(i => i.address), [ '0x00000008' ]);
+		});
+	});
+
+	suite('Mems scope', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		async function memsScope() {
+			const scopes = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+			return scopes.find(scope => scope.name === 'Mems')!;
+		}
+
+		test('should page the words of the program', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const mems = await memsScope();
+			assert.strictEqual(mems.indexedVariables, 10);
+
+			const response = await dc.variablesRequest({ variablesReference: mems.variablesReference, filter: 'indexed', start: 6, count: 2 });
+			assert.deepStrictEqual(response.body.variables.map(v => [ v.name, v.value, v.type ]), [
+				[ 'mem[6] done', '25165824 (halt)', 'code' ],
+				[ 'mem[7] five', '5', 'data' ]
+			]);
+		});
+
+		test('should list every address after toggleMemoryView', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.customRequest('toggleMemoryView');
+			const mems = await memsScope();
+			assert.strictEqual(mems.indexedVariables, 65536);
+
+			const response = await dc.variablesRequest({ variablesReference: mems.variablesReference, filter: 'indexed', start: 65534, count: 10 });
+			assert.deepStrictEqual(response.body.variables.map(v => v.name), [ 'mem[65534]', 'mem[65535]' ]);
+		});
+
+		test('should add the words accessed outside of the program', async () => {
+
+			await launchStoppedOnEntry(Path.join(DATA_ROOT, 'testFarJump.as'));
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 3);
+			const mems = await memsScope();
+			assert.strictEqual(mems.indexedVariables, 7);
+
+			const response = await dc.variablesRequest({ variablesReference: mems.variablesReference, filter: 'indexed', start: 6, count: 1 });
+			assert.strictEqual(response.body.variables[0].name, 'mem[100]');
+		});
+	});
+
+	suite('evaluate', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		test('should evaluate expressions over registers, labels and memory', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			assert.strictEqual(await evaluate('mem[five] + r1 * 2'), '15');
+			assert.strictEqual(await evaluate('mem[stAddr] == start', 'hover'), '1');
+			assert.strictEqual(await evaluate('neg1 - 1', 'repl'), '7');
+		});
+
+		test('should format the result as hex', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const response = await dc.evaluateRequest({ expression: 'mem[neg1]', context: 'watch', format: { hex: true } });
+			assert.strictEqual(response.body.result, '0xffffffff');
+		});
+
+		test('should report an invalid expression', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assert.rejects(dc.evaluateRequest({ expression: 'r1 +', context: 'watch' }));
+			await assert.rejects(dc.evaluateRequest({ expression: 'nowhere', context: 'watch' }));
+		});
+
+		test('should give variables evaluate names the evaluator accepts', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			const [ registers, mems ] = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+
+			const reg = (await dc.variablesRequest({ variablesReference: registers.variablesReference })).body.variables[1];
+			assert.strictEqual(reg.evaluateName, 'r1');
+			assert.strictEqual(await evaluate(reg.evaluateName!), '5');
+
+			const mem = (await dc.variablesRequest({ variablesReference: mems.variablesReference, start: 8, count: 1 })).body.variables[0];
+			assert.strictEqual(mem.evaluateName, 'mem[8]');
+			assert.strictEqual(await evaluate(mem.evaluateName!), '-1');
+		});
+	});
+
+	suite('debug console commands', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		test('should examine memory words', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			assert.strictEqual(await evaluate('x/3 five', 'repl'), 'mem[7] five = 5\nmem[8] neg1 = -1\nmem[9] stAddr = 2');
+			assert.strictEqual(await evaluate('x/4 65535', 'repl'), 'mem[65535] = 0');
+			await assert.rejects(dc.evaluateRequest({ expression: 'x -1', context: 'repl' }));
+		});
+
+		test('should evaluate expressions with a label named x', async () => {
+
+			await launchStoppedOnEntry(Path.join(DATA_ROOT, 'testLabelX.as'));
+			assert.strictEqual(await evaluate('x + 1', 'repl'), '3');
+			assert.strictEqual(await evaluate('x/2 + 1', 'repl'), '2');
+			assert.strictEqual(await evaluate('mem[x]', 'repl'), '41');
+		});
+
+		test('should list registers and labels', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			assert.strictEqual((await evaluate('info regs', 'repl')).split('\n')[1], 'reg 1 = 5');
+			assert.strictEqual((await evaluate('info labels', 'repl')).split('\n')[0], 'start = 2 (code), mem[2] = 655361');
+		});
+
+		test('should set registers and memory words', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			assert.strictEqual(await evaluate('set r3 = 0x10', 'repl'), 'r3 = 16');
+			assert.strictEqual(await evaluate('set mem[five + 1] = r3 + 1', 'repl'), 'mem[five + 1] = 17');
+			assert.strictEqual(await evaluate('r3'), '16');
+			assert.strictEqual(await evaluate('mem[neg1]'), '17');
+			await assert.rejects(dc.evaluateRequest({ expression: 'set five = 1', context: 'repl' }));
+		});
+
+		test('should add a breakpoint at a label', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const [ , event ] = await Promise.all([
+				evaluate('break done', 'repl'),
+				dc.waitForEvent('breakpoint')
+			]);
+			assert.strictEqual(event.body.reason, 'new');
+			assert.strictEqual(event.body.breakpoint.line, 7);
+
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'breakpoint', 7);
+		});
+
+		test('should print the state like the reference simulator', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const lines = (await evaluate('printstate', 'repl')).split('\n');
+			assert.deepStrictEqual(lines.slice(0, 5), [ '@@@', 'state:', '\tpc 0', '\tmemory:', '\t\tmem[ 0 ] 8454151' ]);
+			assert.strictEqual(lines[lines.length - 1], 'end state');
+		});
+	});
+
+	suite('completions', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		function complete(text: string) {
+			return dc.completionsRequest({ text, column: text.length + 1 }).then(response => response.body.targets);
+		}
+
+		test('should complete commands at the beginning of the input', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			assert.deepStrictEqual((await complete('in')).map(t => t.label), [ 'info regs', 'info labels' ]);
+			assert.deepStrictEqual((await complete('x/2 in')).map(t => t.label), []);
+		});
+
+		test('should complete registers with their values', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			const targets = await complete('r');
+			assert.deepStrictEqual(targets.map(t => t.label), [ 'r0', 'r1', 'r2', 'r3', 'r4', 'r5', 'r6', 'r7' ]);
+			assert.strictEqual(targets[1].detail, 'reg 1 = 5');
+		});
+
+		test('should complete labels inside an expression', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const targets = await complete('mem[f');
+			assert.deepStrictEqual(targets.map(t => [ t.label, t.type, t.start, t.length ]), [ [ 'five', 'variable', 5, 1 ] ]);
+			assert.deepStrictEqual((await complete('st')).map(t => [ t.label, t.type ]), [ [ 'start', 'function' ], [ 'stAddr', 'variable' ] ]);
+		});
+	});
+
+	suite('setVariable and setExpression', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		async function scope(name: string) {
+			const scopes = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+			return scopes.find(scope => scope.name === name)!.variablesReference;
+		}
+
+		function setVariable(variablesReference: number, name: string, value: string) {
+			return dc.setVariableRequest({ variablesReference, name, value }).then(response => response.body.value);
+		}
+
+		test('should parse numbers and labels as register values', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const registers = await scope('Registers');
+			assert.strictEqual(await setVariable(registers, 'reg 3', '0x10'), '16');
+			assert.strictEqual(await setVariable(registers, 'reg 3', '0b101'), '5');
+			assert.strictEqual(await setVariable(registers, 'reg 3', '0xFFFFFFFF'), '-1');
+			assert.strictEqual(await setVariable(registers, 'reg 3', 'five'), '7');
+			// what the variables view shows besides the value is ignored
+			assert.strictEqual(await setVariable(registers, 'reg 3', '12 (was 7)'), '12');
+			await assert.rejects(setVariable(registers, 'reg 3', 'nowhere'));
+			await assert.rejects(setVariable(registers, 'reg 3', '0x100000000'));
+		});
+
+		test('should change memory words and .fill labels', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			assert.strictEqual(await setVariable(await scope('Mems'), 'mem[7] five', '9'), '9');
+			assert.strictEqual(await evaluate('mem[five]'), '9');
+
+			const labels = await scope('Labels');
+			assert.strictEqual(await setVariable(labels, 'neg1 (mem[8], data)', '-2'), '-2');
+			assert.strictEqual(await evaluate('mem[neg1]'), '-2');
+			await assert.rejects(setVariable(labels, 'start (mem[2], code)', '0'));
+		});
+
+		test('should assign registers and memory words from the watch view', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const register = await dc.send('setExpression', { expression: 'r3', value: '42' }) as DebugProtocol.SetExpressionResponse;
+			assert.strictEqual(register.body.value, '42');
+			const word = await dc.send('setExpression', { expression: 'mem[five + 1]', value: '0x20' }) as DebugProtocol.SetExpressionResponse;
+			assert.strictEqual(word.body.value, '32');
+			assert.strictEqual(await evaluate('mem[neg1]'), '32');
+			await assert.rejects(dc.send('setExpression', { expression: 'r1 + 1', value: '1' }));
+		});
+	});
+
+	suite('number formats', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		async function variables(name: string, format?: DebugProtocol.ValueFormat) {
+			const scopes = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+			const variablesReference = scopes.find(scope => scope.name === name)!.variablesReference;
+			return (await dc.variablesRequest({ variablesReference, format })).body.variables;
+		}
+
+		test('should show a variable in the format chosen for it', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await dc.customRequest('setVariableFormat', { name: 'mem[8] neg1', format: 'unsigned' });
+			await dc.customRequest('setVariableFormat', { name: 'mem[9] stAddr', format: 'binary' });
+			await dc.customRequest('setVariableFormat', { name: 'mem[0]', format: 'fields' });
+
+			const mems = await variables('Mems');
+			assert.strictEqual(mems[8].value, '4294967295');
+			assert.strictEqual(mems[9].value, '0b00000000000000000000000000000010');
+			assert.strictEqual(mems[0].value, '0000000 010 000 001 0000000000000111 (lw 0 1 five)');
+			// the other words keep the default format
+			assert.strictEqual(mems[7].value, '5');
+		});
+
+		test('should show hex values when asked for', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			assert.strictEqual((await variables('Labels', { hex: true }))[2].value, '0x00000005');
+
+			await dc.customRequest('toggleFormatting');
+			assert.strictEqual((await variables('Labels'))[3].value, '0xffffffff');
+		});
+	});
+
+	suite('Changes scope', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		async function variables(name: string) {
+			const scopes = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+			const variablesReference = scopes.find(scope => scope.name === name)!.variablesReference;
+			return (await dc.variablesRequest({ variablesReference })).body.variables;
+		}
+
+		test('should show what the last step changed', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			assert.deepStrictEqual(await variables('Changes'), []);
+
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			assert.deepStrictEqual((await variables('Changes')).map(v => [ v.name, v.value ]), [ [ 'reg 1', '5 (was 0)' ] ]);
+			assert.strictEqual((await variables('Registers'))[1].value, '5 (was 0)');
+
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 3);
+			assert.deepStrictEqual((await variables('Changes')).map(v => [ v.name, v.value ]), [ [ 'reg 2', '-1 (was 0)' ] ]);
+			assert.strictEqual((await variables('Registers'))[1].value, '5');
+		});
+
+		test('should show what stepping back changed', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			await assertStop(dc.nextRequest({ threadId: THREAD_ID }), 'step', 2);
+			await assertStop(dc.stepBackRequest({ threadId: THREAD_ID }), 'step', 1);
+			assert.deepStrictEqual((await variables('Changes')).map(v => [ v.name, v.value ]), [ [ 'reg 1', '0 (was 5)' ] ]);
+		});
+
+		test('should leave out the scope with showChanges off', async () => {
+
+			await launchStoppedOnEntry(PROGRAM, { showChanges: false });
+			const scopes = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+			assert.deepStrictEqual(scopes.map(scope => scope.name), [ 'Registers', 'Mems', 'Labels' ]);
+		});
+	});
+
+	suite('Labels scope', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.as');
+
+		async function labelsScope() {
+			const scopes = (await dc.scopesRequest({ frameId: 0 })).body.scopes;
+			return scopes.find(scope => scope.name === 'Labels')!.variablesReference;
+		}
+
+		test('should show every label with its address and word', async () => {
+
+			await launchStoppedOnEntry(PROGRAM);
+			const labels = (await dc.variablesRequest({ variablesReference: await labelsScope() })).body.variables;
+			assert.deepStrictEqual(labels.map(v => [ v.name, v.value ]), [
+				[ 'start (mem[2], code)', '655361 (add 1 2 1)' ],
+				[ 'done (mem[6], code)', '25165824 (halt)' ],
+				[ 'five (mem[7], data)', '5' ],
+				[ 'neg1 (mem[8], data)', '-1' ],
+				[ 'stAddr (mem[9], data)', '2' ]
+			]);
+			// only the words of '.fill' labels can be changed
+			assert.deepStrictEqual(labels[0].presentationHint?.attributes, [ 'readOnly' ]);
+			assert.strictEqual(labels[2].presentationHint, undefined);
+		});
+
+		test('should offer a data breakpoint on the word of a label', async () => {
+
+			const WRITE_LINE = 6;
+
+			await launchStoppedOnEntry(Path.join(DATA_ROOT, 'testSubroutine.as'));
+			const labels = await labelsScope();
+			const stack = (await dc.variablesRequest({ variablesReference: labels })).body.variables.find(v => v.name.startsWith('Stack '))!;
+
+			const info = await dc.dataBreakpointInfoRequest({ name: stack.name, variablesReference: labels });
+			assert.strictEqual(info.body.dataId, 'mem[21]');
+			await dc.setDataBreakpointsRequest({ breakpoints: [ { dataId: info.body.dataId!, accessType: 'write' } ] });
+
+			// 'sw 5 7 Stack' saves the return address, the program stops after it
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'data breakpoint', WRITE_LINE + 1);
+		});
+	});
+
+	suite('machine code', () => {
+
+		test('should stop on a breakpoint in a machine-code file', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testMachineCode.mc');
+
+			return dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: 3, verified: false } );
+		});
+
+		test('should show the assembly source that assembles into the machine code', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testAssembled.mc');
+			const SOURCE = Path.join(DATA_ROOT, 'testAssembled.as');
+
+			return Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, stopOnEntry: true }),
+				dc.assertStoppedLocation('entry', { path: SOURCE, line: 2 } )
+			]);
+		});
+
+		test('should stop on a breakpoint in the machine code while showing the assembly source', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testAssembled.mc');
+			const SOURCE = Path.join(DATA_ROOT, 'testAssembled.as');
+
+			// address 2 is line 3 of the machine code and line 4 of the source
+			return dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: 3, verified: false }, { path: SOURCE, line: 4 } );
+		});
+
+		test('should fail to launch a file with a line that is no machine-code word', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testBadMachineCode.mc');
+
+			return Promise.all([
+				dc.configurationSequence(),
+				assert.rejects(dc.launch({ program: PROGRAM }))
+			]);
+		});
+	});
+
+	suite('assembler errors', () => {
+
+		test('should explain the assembler error of the instruction that raised the exception', async () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'testAssemblerError.as');
+
+			// a program with errors stops before it runs
+			await Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM }),
+				dc.assertStoppedLocation('entry', { line: 1 } )
+			]);
+			await assertStop(dc.continueRequest({ threadId: THREAD_ID }), 'exception', 2);
+
+			const response = await dc.exceptionInfoRequest({ threadId: THREAD_ID });
+			assert.ok(response.body.description?.startsWith('Offset out of range'), response.body.description);
+			assert.ok(response.body.description?.includes('-32768 to 32767'), response.body.description);
+		});
+	});
+});
@@ -0,0 +1,3 @@
+	noop
+	lw	0	1	100000	the offset does not fit into 16 bits
+	halt
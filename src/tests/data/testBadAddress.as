@@ -0,0 +1,3 @@
+	noop
+	lw	0	1	-1	there is no address -1
+	halt
@@ -0,0 +1,6 @@
+	lw	0	1	hlt
+	sw	0	1	100	copy the halt to address 100
+	lw	0	2	far
+	jalr	2	3		jump to address 100
+hlt	halt
+far	.fill	100
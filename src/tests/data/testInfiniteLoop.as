@@ -0,0 +1,2 @@
+loop	beq	0	0	loop	loop forever
+	halt
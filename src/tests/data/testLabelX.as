@@ -0,0 +1,3 @@
+	lw	0	1	x	load the word at label x
+	halt
+x	.fill	41
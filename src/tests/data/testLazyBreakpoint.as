@@ -0,0 +1,9 @@
+	lw	0	1	five
+	lw	0	2	neg1
+# the loop decrements reg1 down to 0
+loop	add	1	2	1
+	beq	0	1	done
+	beq	0	0	loop
+done	halt
+five	.fill	5
+neg1	.fill	-1
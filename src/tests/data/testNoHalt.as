@@ -0,0 +1,3 @@
+	lw	0	1	last
+	jalr	1	2		jump to the last word of the memory
+last	.fill	65535
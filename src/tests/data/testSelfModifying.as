@@ -0,0 +1,5 @@
+	lw	0	1	instr
+	sw	0	1	patch	replace the noop with lw 0 2 4
+patch	noop
+	halt
+instr	.fill	8519684
@@ -0,0 +1,6 @@
+	lw	0	1	five
+	noop
+	noop
+	sw	0	1	1	overwrite the first noop with 5
+	halt
+five	.fill	5
@@ -0,0 +1,105 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { assemble, disassemble, toMachineCode } from '../lc2kAssembler';
+
+suite('LC2K Assembler', () => {
+
+	suite('encoding', () => {
+
+		test('should assemble the reference example', () => {
+
+			const source = [
+				'\tlw\t0\t1\tfive\tload reg1 with 5 (uses symbolic address)',
+				'\tlw\t1\t2\t3\tload reg2 with -1 (uses numeric address)',
+				'start\tadd\t1\t2\t1\tdecrement reg1',
+				'\tbeq\t0\t1\t2\tgoto end of program when reg1==0',
+				'\tbeq\t0\t0\tstart\tgo back to the beginning of the loop',
+				'\tnoop',
+				'done\thalt\t\t\t\tend of program',
+				'five\t.fill\t5',
+				'neg1\t.fill\t-1',
+				'stAddr\t.fill\tstart\twill contain the address of start (2)',
+				''
+			].join('\n');
+
+			const assembly = assemble(source);
+
+			assert.deepStrictEqual(assembly.errors, []);
+			assert.deepStrictEqual(assembly.words, [8454151, 9043971, 655361, 16842754, 16842749, 29360128, 25165824, 5, -1, 2]);
+			assert.strictEqual(toMachineCode(assembly.words).split('\n')[8], '-1');
+		});
+
+		test('should not assign addresses to blank lines and comments', () => {
+
+			const assembly = assemble('\tnoop\n\n# a comment\nend\thalt\n');
+
+			assert.strictEqual(assembly.labels.get('end')?.address, 1);
+			assert.strictEqual(assembly.labels.get('end')?.line, 3);
+			assert.deepStrictEqual(assembly.words, [29360128, 25165824]);
+		});
+	});
+
+	suite('errors', () => {
+
+		test('should report every error with its line', () => {
+
+			const source = [
+				'\tfoo\t1\t2\t3',
+				'\tadd\t1\t9\t3',
+				'\tlw\t0\t1\tnowhere',
+				'\tbeq\t0\t0\t40000',
+				'\tjalr\t4',
+				'dup\tnoop',
+				'dup\thalt'
+			].join('\n');
+
+			const errors = assemble(source).errors.map(e => [e.kind, e.line]);
+
+			assert.deepStrictEqual(errors.sort(), [
+				['duplicate', 6],
+				['field', 4],
+				['label', 2],
+				['offset', 3],
+				['opcode', 0],
+				['register', 1]
+			]);
+		});
+
+		test('should report badly named labels but still define them', () => {
+
+			const source = [
+				'\tlw\t0\t1\ttoolong',
+				'\tbeq\t0\t0\t1st',
+				'toolong\t.fill\t7',
+				'1st\thalt',
+				'sixchr\tnoop'
+			].join('\n');
+
+			const errors = assemble(source).errors.map(e => [e.line, e.message]);
+
+			assert.deepStrictEqual(errors, [
+				[2, `label 'toolong' is longer than 6 characters`],
+				[3, `label '1st' must start with a letter, not a digit`]
+			]);
+		});
+	});
+
+	suite('disassembly', () => {
+
+		test('should decode machine-code words', () => {
+
+			assert.deepStrictEqual([8454151, 655361, 16842749, 23527424, 25165824, -1].map(disassemble), [
+				'lw 0 1 7',
+				'add 1 2 1',
+				'beq 0 0 -3',
+				'jalr 4 7',
+				'halt',
+				'.fill -1'
+			]);
+		});
+	});
+});
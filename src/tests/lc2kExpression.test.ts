@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import assert = require('assert');
+import { evaluateExpression, parseNumber, IExpressionContext } from '../lc2kExpression';
+
+suite('LC2K Expressions', () => {
+
+	const registers = [0, 5, -1, 12, 0, 3, 0, 0];
+	const memory = [8454151, 7, 11, 13];
+	const labels = new Map<string, number>([['arr', 1], ['r', 3]]);
+
+	const context: IExpressionContext = {
+		getRegister: reg => registers[reg],
+		getMemory: address => {
+			if (address < 0 || address >= memory.length) {
+				throw new Error(`address ${address} is outside of the memory`);
+			}
+			return memory[address];
+		},
+		getLabelAddress: name => labels.get(name)
+	};
+
+	const evaluate = (expression: string) => evaluateExpression(expression, context);
+
+	test('should read registers, labels and memory', () => {
+		assert.strictEqual(evaluate('r3'), 12);
+		assert.strictEqual(evaluate('reg 3'), 12);
+		assert.strictEqual(evaluate('arr'), 1);
+		assert.strictEqual(evaluate('mem[arr + 1]'), 11);
+		assert.strictEqual(evaluate('mem[arr + r2]'), 8454151);
+	});
+
+	test('should prefer a label over a register of the same name', () => {
+		assert.strictEqual(evaluate('r'), 3);
+		labels.set('r1', 2);
+		assert.strictEqual(evaluate('r1'), 2);
+		assert.strictEqual(evaluate('reg 1'), 5);
+		labels.delete('r1');
+	});
+
+	test('should follow C precedence with 32-bit arithmetic', () => {
+		assert.strictEqual(evaluate('1 + 2 * 3'), 7);
+		assert.strictEqual(evaluate('(mem[0] >> 22) & 0x7'), 2);
+		assert.strictEqual(evaluate('r1 == 5 && r2 < 0'), 1);
+		assert.strictEqual(evaluate('0xFFFFFFFF'), -1);
+		assert.strictEqual(evaluate('0x7FFFFFFF + 1'), -2147483648);
+		assert.strictEqual(evaluate('~0b101 | 1'), -5);
+		assert.strictEqual(evaluate('-7 / 2'), -3);
+		assert.strictEqual(evaluate('-7 % 2'), -1);
+	});
+
+	test('should report invalid expressions', () => {
+		assert.throws(() => evaluate('r8'), /only registers r0-r7 exist/);
+		assert.throws(() => evaluate('nothere'), /label 'nothere' is not defined/);
+		assert.throws(() => evaluate('mem[42]'), /outside of the memory/);
+		assert.throws(() => evaluate('1 / (r4)'), /division by zero/);
+		assert.throws(() => evaluate('(1 + 2'), /unexpected end of expression/);
+		assert.throws(() => evaluate('1 $ 2'), /unexpected character '\$'/);
+		assert.throws(() => evaluate('0x100000000'), /does not fit into 32 bits/);
+	});
+
+	test('should parse number literals', () => {
+		assert.strictEqual(parseNumber('-12'), -12);
+		assert.strictEqual(parseNumber('0x10'), 16);
+		assert.strictEqual(parseNumber('0b1010'), 10);
+		assert.strictEqual(parseNumber('4294967295'), -1);
+		assert.strictEqual(parseNumber('12abc'), undefined);
+	});
+});